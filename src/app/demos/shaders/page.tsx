@@ -1,8 +1,8 @@
 "use client";
 
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef, type ComponentRef } from "react";
 import { Canvas } from "@react-three/fiber";
-import { Preload, PerformanceMonitor, AdaptiveDpr } from "@react-three/drei";
+import { Preload, PerformanceMonitor, AdaptiveDpr, OrbitControls } from "@react-three/drei";
 import Link from "next/link";
 import {
   ArrowLeft,
@@ -12,193 +12,416 @@ import {
   Code,
   ChevronLeft,
   ChevronRight,
+  AlertTriangle,
+  Link2,
+  Check,
+  Download,
+  FileCode,
+  Gauge,
+  Smartphone,
 } from "lucide-react";
+import type { ShaderMaterial, WebGLRenderer } from "three";
 import { Header } from "@/components/sections/Header";
-import { ShaderGallery, type ShaderInfo } from "@/components/canvas/ShaderGallery";
+import { ShaderGallery } from "@/components/canvas/ShaderGallery";
+import { ShaderThumbnail } from "@/components/canvas/ShaderThumbnail";
+import { ShaderProfiler } from "@/components/canvas/ShaderProfiler";
+import {
+  resolveShader,
+  getShaders,
+  registerShader,
+  unregisterShader,
+} from "@/components/canvas/shaders/registry";
+import type {
+  ShaderDefinition,
+  ShaderInfo,
+  ShaderUniformValue,
+  ShaderUniformValues,
+} from "@/components/canvas/shaders/types";
+import {
+  compileFragmentShader,
+  type ShaderCompileError,
+} from "@/components/canvas/shaders/compile";
+import {
+  decodeShaderPermalink,
+  encodeShaderPermalink,
+  buildShaderPermalink,
+  type ShaderPermalinkState,
+} from "@/components/canvas/shaders/permalink";
+import { exportShader, type ShaderExportOptions } from "@/components/canvas/shaders/export";
+import { downloadBlob } from "@/lib/download";
+import {
+  createShaderPreset,
+  saveShaderPresets,
+  deleteShaderPreset,
+  serializeShaderPresets,
+  parseShaderPresetFile,
+  type ShaderPreset,
+} from "@/components/canvas/shaders/presets";
 import { ShaderControls } from "@/components/ShaderControls";
+import { ShaderExportPanel } from "@/components/ShaderExportPanel";
+import { ShaderProfilerPanel } from "@/components/ShaderProfilerPanel";
+import { ShaderEditor } from "@/components/ShaderEditor";
+import { ShadertoyImportPanel } from "@/components/ShadertoyImportPanel";
 import { useDeviceDetection, getOptimalDPR } from "@/hooks/useDeviceDetection";
+import { useShaderRegistry } from "@/hooks/useShaderRegistry";
+import { useAudioAnalysis } from "@/hooks/useAudioAnalysis";
+import { useShaderThumbnails } from "@/hooks/useShaderThumbnails";
+import { useShaderPresets } from "@/hooks/useShaderPresets";
+import { useShaderInput } from "@/hooks/useShaderInput";
+import type { ShaderSurface } from "@/components/canvas/shaders/surfaces";
+import {
+  benchmarkShaders,
+  createProfilerStats,
+  type ProfilerStats,
+  type ShaderBenchmarkOptions,
+  type ShaderBenchmarkResult,
+} from "@/components/canvas/shaders/profiler";
 
-// Shader definitions
-const SHADERS: ShaderInfo[] = [
-  {
-    id: "plasma",
-    name: "Plasma Wave",
-    description: "Classic plasma effect with flowing organic patterns",
-    tags: ["classic", "organic", "colorful"],
-    audioReactive: false,
-  },
-  {
-    id: "raymarching",
-    name: "Ray Marching Sphere",
-    description: "Real-time ray marching with soft shadows and reflections",
-    tags: ["3d", "raymarching", "shadows"],
-    audioReactive: false,
-  },
-  {
-    id: "voronoi",
-    name: "Voronoi Cells",
-    description: "Dynamic Voronoi diagram with animated cell boundaries",
-    tags: ["geometric", "procedural", "cells"],
-    audioReactive: false,
-  },
-  {
-    id: "fractal",
-    name: "Fractal Noise",
-    description: "Multi-octave fractal Brownian motion turbulence",
-    tags: ["noise", "fractal", "organic"],
-    audioReactive: false,
-  },
-  {
-    id: "warp",
-    name: "Domain Warping",
-    description: "Recursive domain warping creating marble-like patterns",
-    tags: ["warp", "marble", "procedural"],
-    audioReactive: false,
-  },
-  {
-    id: "audio",
-    name: "Audio Visualizer",
-    description: "Real-time audio-reactive shader using microphone input",
-    tags: ["audio", "reactive", "visualizer"],
-    audioReactive: true,
-  },
-  {
-    id: "galaxy",
-    name: "Cosmic Galaxy",
-    description: "Procedural galaxy with spiral arms and star particles",
-    tags: ["space", "stars", "cosmic"],
-    audioReactive: false,
-  },
-  {
-    id: "liquid",
-    name: "Liquid Metal",
-    description: "Smooth liquid metal simulation with iridescent reflections",
-    tags: ["metallic", "liquid", "iridescent"],
-    audioReactive: false,
-  },
-];
+// Delay between the last keystroke and recompiling the edited shader
+const COMPILE_DEBOUNCE_MS = 300;
 
 export default function ShadersPage() {
   const device = useDeviceDetection();
   const optimalDPR = getOptimalDPR(device);
   const [dpr, setDpr] = useState(optimalDPR[0]);
+  const shaders = useShaderRegistry();
 
   // Gallery state
   const [selectedShader, setSelectedShader] = useState<ShaderInfo | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showCode, setShowCode] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showProfiler, setShowProfiler] = useState(false);
+
+  // Fullscreen renderer and material, used for offscreen export
+  const rendererRef = useRef<WebGLRenderer | null>(null);
+  const materialRef = useRef<ShaderMaterial | null>(null);
+
+  // Live profiler stats, written by ShaderProfiler every frame
+  const profilerStatsRef = useRef<ProfilerStats>(createProfilerStats());
+
+  // Fullscreen preview surface; orbiting only makes sense on meshes
+  const [surface, setSurface] = useState<ShaderSurface>("plane");
+  const controlsRef = useRef<ComponentRef<typeof OrbitControls>>(null);
+
+  // Back to the default framing whenever the surface changes
+  useEffect(() => {
+    controlsRef.current?.reset();
+  }, [surface]);
 
   // Control state
   const [speed, setSpeed] = useState(1.0);
   const [baseColor, setBaseColor] = useState("#a855f7");
   const [isPlaying, setIsPlaying] = useState(true);
 
-  // Audio state
-  const [audioEnabled, setAudioEnabled] = useState(false);
-  const [audioLevel, setAudioLevel] = useState(0);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const animationFrameRef = useRef<number>(0);
+  // Custom uniform values (keyed by shader id, missing entries use defaults)
+  const [uniformValues, setUniformValues] = useState<
+    Record<string, ShaderUniformValues>
+  >({});
 
-  // Mouse position for shader uniforms
-  const [mousePosition, setMousePosition] = useState({ x: 0.5, y: 0.5 });
+  // Live editor state (keyed by shader id)
+  const [sourceDrafts, setSourceDrafts] = useState<Record<string, string>>({});
+  const [liveSources, setLiveSources] = useState<Record<string, string>>({});
+  const [compileErrors, setCompileErrors] = useState<
+    Record<string, ShaderCompileError[]>
+  >({});
 
-  const handleMouseMove = useCallback((e: React.MouseEvent) => {
-    if (!isFullscreen) return;
-    const rect = e.currentTarget.getBoundingClientRect();
-    setMousePosition({
-      x: (e.clientX - rect.left) / rect.width,
-      y: 1 - (e.clientY - rect.top) / rect.height,
-    });
-  }, [isFullscreen]);
-
-  // Audio setup for audio-reactive shader
-  const toggleAudio = useCallback(async () => {
-    if (audioEnabled) {
-      // Disable audio
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-        audioContextRef.current = null;
-      }
-      setAudioEnabled(false);
-      setAudioLevel(0);
-      return;
+  // Shadertoy imports live only as long as the page
+  const [showImport, setShowImport] = useState(false);
+  const importedIdsRef = useRef<string[]>([]);
+
+  useEffect(() => {
+    const importedIds = importedIdsRef.current;
+    return () => importedIds.forEach(unregisterShader);
+  }, []);
+
+  // Grid previews share one renderer; fullscreen has its own canvas
+  const thumbnails = useShaderThumbnails(isPlaying && !isFullscreen);
+
+  // Audio analysis (microphone or local file)
+  const audio = useAudioAnalysis();
+
+  // Pointer, pinch and tilt input for shader uniforms
+  const input = useShaderInput(isFullscreen);
+  const { resetZoom } = input;
+
+  const toggleMicrophone = useCallback(() => {
+    if (audio.source === "microphone") {
+      audio.stop();
+    } else {
+      audio.startMicrophone();
     }
+  }, [audio]);
+
+  // Recompile the edited source once typing settles; only valid sources
+  // reach the material so the last working version keeps rendering
+  const selectedId = selectedShader?.id;
+  const selectedDraft = selectedId ? sourceDrafts[selectedId] : undefined;
+
+  useEffect(() => {
+    if (!selectedId || selectedDraft === undefined) return;
+
+    const timer = setTimeout(() => {
+      const errors = compileFragmentShader(selectedDraft);
+      setCompileErrors((prev) => ({ ...prev, [selectedId]: errors }));
+      if (errors.length === 0) {
+        setLiveSources((prev) => ({ ...prev, [selectedId]: selectedDraft }));
+      }
+    }, COMPILE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [selectedId, selectedDraft]);
 
+  const handleSourceChange = useCallback(
+    (source: string) => {
+      if (!selectedId) return;
+      setSourceDrafts((prev) => ({ ...prev, [selectedId]: source }));
+    },
+    [selectedId]
+  );
+
+  const handleSourceReset = useCallback(() => {
+    if (!selectedId) return;
+    const omitSelected = <T,>(prev: Record<string, T>) => {
+      const next = { ...prev };
+      delete next[selectedId];
+      return next;
+    };
+    setSourceDrafts(omitSelected);
+    setLiveSources(omitSelected);
+    setCompileErrors(omitSelected);
+  }, [selectedId]);
+
+  const originalSource = selectedId ? resolveShader(selectedId).fragment : "";
+  const editorSource = selectedDraft ?? originalSource;
+  const selectedErrors = (selectedId && compileErrors[selectedId]) || [];
+  const isCompiling =
+    !!selectedId &&
+    selectedDraft !== undefined &&
+    selectedDraft !== (liveSources[selectedId] ?? originalSource);
+
+  const handleUniformChange = useCallback(
+    (name: string, value: ShaderUniformValue) => {
+      if (!selectedId) return;
+      setUniformValues((prev) => ({
+        ...prev,
+        [selectedId]: { ...prev[selectedId], [name]: value },
+      }));
+    },
+    [selectedId]
+  );
+
+  const handleUniformsReset = useCallback(() => {
+    if (!selectedId) return;
+    setUniformValues((prev) => {
+      const next = { ...prev };
+      delete next[selectedId];
+      return next;
+    });
+  }, [selectedId]);
+
+  // Named presets for the open shader (persisted in localStorage)
+  const presets = useShaderPresets(selectedId);
+
+  const handlePresetApply = useCallback((preset: ShaderPreset) => {
+    setSpeed(preset.speed);
+    setBaseColor(preset.baseColor);
+    setUniformValues((prev) => ({ ...prev, [preset.shaderId]: preset.uniformValues }));
+  }, []);
+
+  const handlePresetSave = useCallback(
+    (name: string) => {
+      if (!selectedId) return;
+      saveShaderPresets([
+        createShaderPreset(name, resolveShader(selectedId), {
+          speed,
+          baseColor,
+          uniformValues: uniformValues[selectedId],
+        }),
+      ]);
+    },
+    [selectedId, speed, baseColor, uniformValues]
+  );
+
+  const handlePresetDelete = useCallback(
+    (name: string) => {
+      if (!selectedId) return;
+      deleteShaderPreset(selectedId, name);
+    },
+    [selectedId]
+  );
+
+  const handlePresetsExport = useCallback(() => {
+    if (!selectedId) return;
+    downloadBlob(
+      new Blob([serializeShaderPresets(presets)], { type: "application/json" }),
+      `${selectedId}-presets.json`
+    );
+  }, [selectedId, presets]);
+
+  const handlePresetsImport = useCallback(async (file: File) => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const audioContext = new AudioContext();
-      const source = audioContext.createMediaStreamSource(stream);
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
-      source.connect(analyser);
-
-      audioContextRef.current = audioContext;
-      analyserRef.current = analyser;
-      setAudioEnabled(true);
-
-      // Start analyzing audio
-      const dataArray = new Uint8Array(analyser.frequencyBinCount);
-      const updateAudioLevel = () => {
-        if (!analyserRef.current) return;
-        analyserRef.current.getByteFrequencyData(dataArray);
-        // Calculate average volume
-        const average = dataArray.reduce((a, b) => a + b, 0) / dataArray.length;
-        setAudioLevel(average / 255);
-        animationFrameRef.current = requestAnimationFrame(updateAudioLevel);
-      };
-      updateAudioLevel();
+      saveShaderPresets(parseShaderPresetFile(await file.text()));
     } catch (err) {
-      console.error("Failed to access microphone:", err);
+      console.error("Failed to import presets:", err);
     }
-  }, [audioEnabled]);
+  }, []);
+
+  // Shareable permalink state for the open viewer
+  const permalinkState: ShaderPermalinkState | null = useMemo(
+    () =>
+      selectedShader
+        ? {
+            shaderId: selectedShader.id,
+            speed,
+            baseColor,
+            uniformValues: uniformValues[selectedShader.id] ?? {},
+            fullscreen: isFullscreen,
+          }
+        : null,
+    [selectedShader, speed, baseColor, uniformValues, isFullscreen]
+  );
 
-  // Cleanup audio on unmount
+  const applyPermalink = useCallback((hash: string) => {
+    const state = decodeShaderPermalink(hash);
+    if (!state) return;
+
+    setSpeed(state.speed);
+    setBaseColor(state.baseColor);
+    setUniformValues((prev) => ({ ...prev, [state.shaderId]: state.uniformValues }));
+    setSelectedShader(resolveShader(state.shaderId).info);
+    setIsFullscreen(state.fullscreen);
+    setShowCode(false);
+  }, []);
+
+  // Restore from a shared link once hydrated. The hash is captured now
+  // because the mirror effect below clears it before the frame runs.
   useEffect(() => {
+    const initialHash = window.location.hash;
+    const frame = requestAnimationFrame(() => applyPermalink(initialHash));
+
+    const handleHashChange = () => applyPermalink(window.location.hash);
+    window.addEventListener("hashchange", handleHashChange);
     return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
+      cancelAnimationFrame(frame);
+      window.removeEventListener("hashchange", handleHashChange);
+    };
+  }, [applyPermalink]);
+
+  // Mirror the open viewer into the URL so reloads keep the current look
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    if (!permalinkState || !permalinkState.fullscreen) {
+      if (hash) window.history.replaceState(null, "", `${pathname}${search}`);
+      return;
+    }
+    window.history.replaceState(
+      null,
+      "",
+      `${pathname}${search}#${encodeShaderPermalink(permalinkState)}`
+    );
+  }, [permalinkState]);
+
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const copyPermalink = useCallback(async () => {
+    if (!permalinkState) return;
+    try {
+      await navigator.clipboard.writeText(buildShaderPermalink(permalinkState));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy link:", err);
+    }
+  }, [permalinkState]);
+
+  // The live view shares the material's uniforms, so it stays paused until the export ends
+  const handleExport = useCallback(
+    async (
+      options: ShaderExportOptions,
+      onProgress: (completed: number, total: number) => void
+    ) => {
+      const gl = rendererRef.current;
+      const material = materialRef.current;
+      if (!gl || !material || !selectedId) return;
+
+      const wasPlaying = isPlaying;
+      setIsPlaying(false);
+      try {
+        await exportShader(gl, material, options, { fileBaseName: selectedId, onProgress });
+      } finally {
+        setIsPlaying(wasPlaying);
       }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
+    },
+    [selectedId, isPlaying]
+  );
+
+  // Pause the live view so it doesn't compete with the offscreen runs
+  const handleBenchmark = useCallback(
+    async (
+      options: ShaderBenchmarkOptions,
+      onProgress: (results: ShaderBenchmarkResult[], total: number) => void
+    ) => {
+      const gl = rendererRef.current;
+      if (!gl) return [];
+
+      const wasPlaying = isPlaying;
+      setIsPlaying(false);
+      try {
+        return await benchmarkShaders(gl, getShaders(), options, onProgress);
+      } finally {
+        setIsPlaying(wasPlaying);
       }
-    };
-  }, []);
+    },
+    [isPlaying]
+  );
 
   const openShader = (shader: ShaderInfo) => {
     setSelectedShader(shader);
     setIsFullscreen(true);
+    resetZoom();
     setShowCode(false);
     // Auto-enable audio for audio-reactive shader
-    if (shader.audioReactive && !audioEnabled) {
+    if (shader.audioReactive && !audio.source) {
       // Don't auto-enable, let user click
     }
   };
 
+  const handleShadertoyImport = (definition: ShaderDefinition) => {
+    registerShader(definition);
+    importedIdsRef.current.push(definition.info.id);
+    setShowImport(false);
+    openShader(definition.info);
+  };
+
   const closeFullscreen = () => {
     setIsFullscreen(false);
     setSelectedShader(null);
     setShowCode(false);
+    setShowExport(false);
+    setShowProfiler(false);
   };
 
   const navigateShader = useCallback((direction: "prev" | "next") => {
     if (!selectedShader) return;
-    const currentIndex = SHADERS.findIndex((s) => s.id === selectedShader.id);
+    const currentIndex = shaders.findIndex((s) => s.info.id === selectedShader.id);
     const newIndex =
       direction === "prev"
-        ? (currentIndex - 1 + SHADERS.length) % SHADERS.length
-        : (currentIndex + 1) % SHADERS.length;
-    setSelectedShader(SHADERS[newIndex]);
-  }, [selectedShader]);
+        ? (currentIndex - 1 + shaders.length) % shaders.length
+        : (currentIndex + 1) % shaders.length;
+    setSelectedShader(shaders[newIndex].info);
+    resetZoom();
+  }, [selectedShader, shaders, resetZoom]);
 
   // Keyboard shortcuts
   useEffect(() => {
     if (!isFullscreen) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave keystrokes alone while typing in the editor or other fields
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("textarea, input, select")) return;
+
       switch (e.key) {
         case "Escape":
           closeFullscreen();
@@ -260,37 +483,51 @@ export default function ShadersPage() {
                 Interactive GLSL shader effects with real-time controls. Click
                 any shader to view fullscreen with mouse interaction.
               </p>
+              <button
+                onClick={() => setShowImport(!showImport)}
+                className={`mt-6 inline-flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium transition-colors ${
+                  showImport
+                    ? "bg-primary text-white"
+                    : "bg-white/10 text-foreground hover:bg-white/20"
+                }`}
+              >
+                <FileCode className="h-4 w-4" />
+                Import Shadertoy
+              </button>
             </div>
 
+            {/* Shadertoy Import */}
+            {showImport && (
+              <div className="mx-auto mb-12 max-w-3xl">
+                <ShadertoyImportPanel onImport={handleShadertoyImport} />
+              </div>
+            )}
+
+            {thumbnails.isStatic && (
+              <p className="mb-4 text-center text-xs text-foreground-muted">
+                Previews paused while the frame rate recovers
+              </p>
+            )}
+
             {/* Shader Grid */}
             <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-              {SHADERS.map((shader) => (
+              {shaders.map(({ info: shader, thumbnail }) => (
                 <button
                   key={shader.id}
                   onClick={() => openShader(shader)}
                   className="group glass-card relative aspect-square cursor-pointer overflow-hidden p-0 text-left transition-all hover:scale-[1.02]"
                 >
-                  {/* Shader Preview Canvas */}
-                  <div className="absolute inset-0">
-                    <Canvas
-                      gl={{
-                        antialias: false,
-                        alpha: true,
-                        powerPreference: "low-power",
-                      }}
-                      dpr={1}
-                      frameloop={isPlaying ? "always" : "demand"}
-                    >
-                      <ShaderGallery
-                        shaderId={shader.id}
-                        speed={speed * 0.5}
-                        baseColor={baseColor}
-                        mousePosition={{ x: 0.5, y: 0.5 }}
-                        audioLevel={0}
-                        isPreview
-                      />
-                    </Canvas>
-                  </div>
+                  {/* Shader Preview (shared renderer) */}
+                  <ShaderThumbnail
+                    shaderId={shader.id}
+                    slots={thumbnails.slots}
+                    requestFrame={thumbnails.requestFrame}
+                    speed={speed * thumbnail.speedScale}
+                    baseColor={baseColor}
+                    uniformValues={uniformValues[shader.id]}
+                    fragmentShader={liveSources[shader.id]}
+                    className="absolute inset-0 h-full w-full"
+                  />
 
                   {/* Overlay Info */}
                   <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/80 via-black/40 to-transparent p-4 pt-16">
@@ -337,12 +574,11 @@ export default function ShadersPage() {
 
       {/* Fullscreen Shader View */}
       {isFullscreen && selectedShader && (
-        <div
-          className="fixed inset-0 z-50 bg-black"
-          onMouseMove={handleMouseMove}
-        >
-          {/* Fullscreen Canvas */}
+        <div className="fixed inset-0 z-50 bg-black">
+          {/* Fullscreen Canvas (input is read here so the overlays don't steer the shader) */}
           <Canvas
+            className="touch-none"
+            {...input.handlers}
             gl={{
               antialias: !device.isMobile,
               alpha: true,
@@ -350,6 +586,9 @@ export default function ShadersPage() {
             }}
             dpr={dpr}
             frameloop={isPlaying ? "always" : "demand"}
+            onCreated={({ gl }) => {
+              rendererRef.current = gl;
+            }}
           >
             <PerformanceMonitor
               onIncline={() => setDpr(Math.min(dpr + 0.5, optimalDPR[1]))}
@@ -360,10 +599,22 @@ export default function ShadersPage() {
                 shaderId={selectedShader.id}
                 speed={speed}
                 baseColor={baseColor}
-                mousePosition={mousePosition}
-                audioLevel={audioLevel}
+                inputRef={input.inputRef}
+                audioRef={audio.frameRef}
+                uniformValues={uniformValues[selectedShader.id]}
                 isPreview={false}
+                fragmentShader={liveSources[selectedShader.id]}
+                materialRef={materialRef}
+                surface={surface}
               />
+              <OrbitControls
+                ref={controlsRef}
+                enabled={surface !== "plane"}
+                enablePan={false}
+                // The wheel and pinch drive uZoom instead
+                enableZoom={false}
+              />
+              {showProfiler && <ShaderProfiler statsRef={profilerStatsRef} />}
               <Preload all />
             </PerformanceMonitor>
           </Canvas>
@@ -380,6 +631,68 @@ export default function ShadersPage() {
             </div>
 
             <div className="flex items-center gap-2">
+              {/* Tilt permission (iOS asks from a user gesture) */}
+              {(input.orientationPermission === "prompt" ||
+                input.orientationPermission === "denied") && (
+                <button
+                  onClick={input.requestOrientation}
+                  disabled={input.orientationPermission === "denied"}
+                  className="rounded-lg bg-white/10 p-2 text-white transition-colors hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-50"
+                  title={
+                    input.orientationPermission === "denied"
+                      ? "Tilt access denied (enable motion access in browser settings)"
+                      : "Enable Tilt"
+                  }
+                >
+                  <Smartphone className="h-5 w-5" />
+                </button>
+              )}
+
+              {/* Copy link */}
+              <button
+                onClick={copyPermalink}
+                className={`rounded-lg p-2 transition-colors ${
+                  linkCopied
+                    ? "bg-primary text-white"
+                    : "bg-white/10 text-white hover:bg-white/20"
+                }`}
+                title={linkCopied ? "Link Copied" : "Copy Link"}
+              >
+                {linkCopied ? <Check className="h-5 w-5" /> : <Link2 className="h-5 w-5" />}
+              </button>
+
+              {/* Profiler toggle */}
+              <button
+                onClick={() => {
+                  setShowProfiler(!showProfiler);
+                  setShowExport(false);
+                }}
+                className={`rounded-lg p-2 transition-colors ${
+                  showProfiler
+                    ? "bg-primary text-white"
+                    : "bg-white/10 text-white hover:bg-white/20"
+                }`}
+                title="Profiler"
+              >
+                <Gauge className="h-5 w-5" />
+              </button>
+
+              {/* Export toggle */}
+              <button
+                onClick={() => {
+                  setShowExport(!showExport);
+                  setShowProfiler(false);
+                }}
+                className={`rounded-lg p-2 transition-colors ${
+                  showExport
+                    ? "bg-primary text-white"
+                    : "bg-white/10 text-white hover:bg-white/20"
+                }`}
+                title="Export"
+              >
+                <Download className="h-5 w-5" />
+              </button>
+
               {/* Code toggle */}
               <button
                 onClick={() => setShowCode(!showCode)}
@@ -388,7 +701,7 @@ export default function ShadersPage() {
                     ? "bg-primary text-white"
                     : "bg-white/10 text-white hover:bg-white/20"
                 }`}
-                title="View Code"
+                title="Edit Code"
               >
                 <Code className="h-5 w-5" />
               </button>
@@ -430,22 +743,72 @@ export default function ShadersPage() {
               onColorChange={setBaseColor}
               isPlaying={isPlaying}
               onPlayingChange={setIsPlaying}
-              audioEnabled={audioEnabled}
-              onAudioToggle={toggleAudio}
+              audioSource={audio.source}
+              onMicrophoneToggle={toggleMicrophone}
+              onAudioFileSelect={audio.startFile}
               showAudioControl={selectedShader.audioReactive}
-              audioLevel={audioLevel}
+              audioLevels={audio.levels}
+              audioTrackName={audio.trackName}
+              uniforms={resolveShader(selectedShader.id).uniforms}
+              uniformValues={uniformValues[selectedShader.id]}
+              onUniformChange={handleUniformChange}
+              onUniformsReset={handleUniformsReset}
+              presets={presets}
+              onPresetApply={handlePresetApply}
+              onPresetSave={handlePresetSave}
+              onPresetDelete={handlePresetDelete}
+              onPresetsExport={handlePresetsExport}
+              onPresetsImport={handlePresetsImport}
+              surface={surface}
+              onSurfaceChange={setSurface}
             />
           </div>
 
+          {/* Compile Error Overlay */}
+          {selectedErrors.length > 0 && (
+            <div className="absolute left-4 top-24 z-10 max-w-md rounded-lg border border-red-500/40 bg-black/85 p-3 backdrop-blur-sm">
+              <div className="mb-2 flex items-center gap-2 text-sm font-semibold text-red-400">
+                <AlertTriangle className="h-4 w-4" />
+                Compile failed — showing last working version
+              </div>
+              <ul className="max-h-40 space-y-1 overflow-auto font-mono text-xs text-red-200">
+                {selectedErrors.map((error, i) => (
+                  <li key={i}>
+                    {error.line !== null && (
+                      <span className="mr-2 text-red-400">Line {error.line}:</span>
+                    )}
+                    {error.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Export Panel */}
+          {showExport && (
+            <div className="absolute right-4 top-24 z-10 w-80 rounded-lg bg-black/90 p-4 backdrop-blur-sm">
+              <ShaderExportPanel onExport={handleExport} />
+            </div>
+          )}
+
+          {/* Profiler Panel */}
+          {showProfiler && (
+            <div className="absolute right-4 top-24 z-10 max-h-[calc(100vh-16rem)] w-80 overflow-auto rounded-lg bg-black/90 p-4 backdrop-blur-sm">
+              <ShaderProfilerPanel statsRef={profilerStatsRef} onBenchmark={handleBenchmark} />
+            </div>
+          )}
+
           {/* Code Panel */}
           {showCode && (
-            <div className="absolute bottom-20 left-4 right-4 z-10 max-h-[50vh] overflow-auto rounded-lg bg-black/90 p-4 backdrop-blur-sm md:left-auto md:max-w-xl">
-              <h3 className="mb-2 text-sm font-semibold text-primary">
-                Fragment Shader
-              </h3>
-              <pre className="overflow-x-auto font-mono text-xs text-white/80">
-                {getShaderCode(selectedShader.id)}
-              </pre>
+            <div className="absolute bottom-32 left-4 right-4 z-10 h-[50vh] rounded-lg bg-black/90 p-4 backdrop-blur-sm md:left-auto md:w-[36rem]">
+              <ShaderEditor
+                value={editorSource}
+                onChange={handleSourceChange}
+                errors={selectedErrors}
+                isModified={editorSource !== originalSource}
+                isCompiling={isCompiling}
+                onReset={handleSourceReset}
+              />
             </div>
           )}
         </div>
@@ -453,172 +816,3 @@ export default function ShadersPage() {
     </>
   );
 }
-
-// Helper to get shader code for display (simplified version)
-function getShaderCode(shaderId: string): string {
-  const codes: Record<string, string> = {
-    plasma: `// Plasma Wave Shader
-uniform float uTime;
-uniform vec2 uMouse;
-uniform vec3 uColor;
-
-void main() {
-  vec2 uv = vUv * 10.0;
-  float t = uTime * 0.5;
-
-  float v = sin(uv.x + t);
-  v += sin(uv.y + t);
-  v += sin(uv.x + uv.y + t);
-  v += sin(sqrt(uv.x*uv.x + uv.y*uv.y) + t);
-
-  vec3 col = uColor * (0.5 + 0.5 * sin(v * 3.14159));
-  gl_FragColor = vec4(col, 1.0);
-}`,
-    raymarching: `// Ray Marching Sphere
-uniform float uTime;
-uniform vec2 uMouse;
-
-float sdSphere(vec3 p, float r) {
-  return length(p) - r;
-}
-
-void main() {
-  vec2 uv = vUv * 2.0 - 1.0;
-  vec3 ro = vec3(0, 0, -3);
-  vec3 rd = normalize(vec3(uv, 1.0));
-
-  float t = 0.0;
-  for(int i = 0; i < 64; i++) {
-    vec3 p = ro + rd * t;
-    float d = sdSphere(p, 1.0);
-    if(d < 0.001) break;
-    t += d;
-  }
-
-  gl_FragColor = vec4(vec3(1.0 - t * 0.1), 1.0);
-}`,
-    voronoi: `// Voronoi Cells
-uniform float uTime;
-
-vec2 random2(vec2 p) {
-  return fract(sin(vec2(
-    dot(p, vec2(127.1, 311.7)),
-    dot(p, vec2(269.5, 183.3))
-  )) * 43758.5453);
-}
-
-void main() {
-  vec2 uv = vUv * 5.0;
-  vec2 i = floor(uv);
-  vec2 f = fract(uv);
-
-  float minDist = 1.0;
-  for(int y = -1; y <= 1; y++) {
-    for(int x = -1; x <= 1; x++) {
-      vec2 neighbor = vec2(x, y);
-      vec2 point = random2(i + neighbor);
-      point = 0.5 + 0.5 * sin(uTime + 6.28 * point);
-      float d = length(neighbor + point - f);
-      minDist = min(minDist, d);
-    }
-  }
-
-  gl_FragColor = vec4(vec3(minDist), 1.0);
-}`,
-    fractal: `// Fractal Noise (FBM)
-uniform float uTime;
-
-float noise(vec2 p) {
-  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
-}
-
-float fbm(vec2 p) {
-  float value = 0.0;
-  float amplitude = 0.5;
-  for(int i = 0; i < 6; i++) {
-    value += amplitude * noise(p);
-    p *= 2.0;
-    amplitude *= 0.5;
-  }
-  return value;
-}
-
-void main() {
-  vec2 uv = vUv * 3.0;
-  float n = fbm(uv + uTime * 0.2);
-  gl_FragColor = vec4(vec3(n), 1.0);
-}`,
-    warp: `// Domain Warping
-uniform float uTime;
-
-float noise(vec2 p) {
-  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
-}
-
-void main() {
-  vec2 uv = vUv;
-  vec2 q = vec2(noise(uv + uTime * 0.1), noise(uv + 1.0));
-  vec2 r = vec2(noise(uv + q + uTime * 0.2), noise(uv + q + 2.0));
-  float f = noise(uv + r);
-
-  vec3 col = mix(vec3(0.1, 0.0, 0.2), vec3(0.8, 0.3, 0.9), f);
-  gl_FragColor = vec4(col, 1.0);
-}`,
-    audio: `// Audio Visualizer
-uniform float uTime;
-uniform float uAudioLevel;
-uniform vec2 uMouse;
-
-void main() {
-  vec2 uv = vUv * 2.0 - 1.0;
-  float d = length(uv);
-
-  // Audio-reactive radius
-  float r = 0.3 + uAudioLevel * 0.5;
-  float ring = smoothstep(r, r + 0.02, d) - smoothstep(r + 0.05, r + 0.07, d);
-
-  // Color based on audio
-  vec3 col = mix(vec3(0.6, 0.2, 0.9), vec3(0.2, 0.9, 0.9), uAudioLevel);
-
-  gl_FragColor = vec4(col * ring, 1.0);
-}`,
-    galaxy: `// Cosmic Galaxy
-uniform float uTime;
-
-float hash(vec2 p) {
-  return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
-}
-
-void main() {
-  vec2 uv = vUv * 2.0 - 1.0;
-  float angle = atan(uv.y, uv.x);
-  float dist = length(uv);
-
-  // Spiral arms
-  float arm = sin(angle * 2.0 + dist * 5.0 - uTime);
-  float stars = hash(floor(vUv * 100.0));
-
-  vec3 col = vec3(0.3, 0.1, 0.5) * arm + vec3(stars) * step(0.98, stars);
-  gl_FragColor = vec4(col, 1.0);
-}`,
-    liquid: `// Liquid Metal
-uniform float uTime;
-uniform vec2 uMouse;
-
-void main() {
-  vec2 uv = vUv;
-  vec2 mouse = uMouse;
-
-  // Ripples from mouse
-  float d = length(uv - mouse);
-  float ripple = sin(d * 20.0 - uTime * 3.0) * exp(-d * 3.0);
-
-  // Iridescent color
-  vec3 col = 0.5 + 0.5 * cos(uTime + uv.xyx * 3.0 + vec3(0, 2, 4));
-  col += ripple * 0.3;
-
-  gl_FragColor = vec4(col, 1.0);
-}`,
-  };
-  return codes[shaderId] || "// Shader code not available";
-}
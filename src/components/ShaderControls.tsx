@@ -1,6 +1,30 @@
 "use client";
 
-import { Play, Pause, Volume2, VolumeX } from "lucide-react";
+import { useState } from "react";
+import {
+  Play,
+  Pause,
+  Volume2,
+  VolumeX,
+  RotateCcw,
+  Music,
+  Bookmark,
+  Save,
+  Trash2,
+  Download,
+  Upload,
+} from "lucide-react";
+import type {
+  ShaderUniformDefinition,
+  ShaderUniformValue,
+  ShaderUniformValues,
+} from "@/components/canvas/shaders/types";
+import type { ShaderPreset } from "@/components/canvas/shaders/presets";
+import {
+  SHADER_SURFACES,
+  type ShaderSurface,
+} from "@/components/canvas/shaders/surfaces";
+import type { AudioLevels, AudioSourceKind } from "@/hooks/useAudioAnalysis";
 
 interface ShaderControlsProps {
   speed: number;
@@ -9,10 +33,25 @@ interface ShaderControlsProps {
   onColorChange: (color: string) => void;
   isPlaying: boolean;
   onPlayingChange: (playing: boolean) => void;
-  audioEnabled: boolean;
-  onAudioToggle: () => void;
+  audioSource: AudioSourceKind | null;
+  onMicrophoneToggle: () => void;
+  onAudioFileSelect: (file: File) => void;
   showAudioControl: boolean;
-  audioLevel: number;
+  audioLevels: AudioLevels;
+  audioTrackName: string | null;
+  uniforms?: ShaderUniformDefinition[];
+  uniformValues?: ShaderUniformValues;
+  onUniformChange?: (name: string, value: ShaderUniformValue) => void;
+  onUniformsReset?: () => void;
+  /** Saved presets for the current shader; the picker shows when set */
+  presets?: ShaderPreset[];
+  onPresetApply?: (preset: ShaderPreset) => void;
+  onPresetSave?: (name: string) => void;
+  onPresetDelete?: (name: string) => void;
+  onPresetsExport?: () => void;
+  onPresetsImport?: (file: File) => void;
+  surface?: ShaderSurface;
+  onSurfaceChange?: (surface: ShaderSurface) => void;
 }
 
 const COLOR_PRESETS = [
@@ -31,132 +70,457 @@ export function ShaderControls({
   onColorChange,
   isPlaying,
   onPlayingChange,
-  audioEnabled,
-  onAudioToggle,
+  audioSource,
+  onMicrophoneToggle,
+  onAudioFileSelect,
   showAudioControl,
-  audioLevel,
+  audioLevels,
+  audioTrackName,
+  uniforms = [],
+  uniformValues = {},
+  onUniformChange,
+  onUniformsReset,
+  presets,
+  onPresetApply,
+  onPresetSave,
+  onPresetDelete,
+  onPresetsExport,
+  onPresetsImport,
+  surface,
+  onSurfaceChange,
 }: ShaderControlsProps) {
   return (
-    <div className="flex flex-wrap items-center justify-center gap-4 md:gap-6">
-      {/* Play/Pause Button */}
-      <button
-        onClick={() => onPlayingChange(!isPlaying)}
-        className="flex items-center gap-2 rounded-lg bg-white/10 px-4 py-2 text-white backdrop-blur-sm transition-colors hover:bg-white/20"
-        title={isPlaying ? "Pause" : "Play"}
-      >
-        {isPlaying ? (
-          <Pause className="h-5 w-5" />
-        ) : (
-          <Play className="h-5 w-5" />
+    <div className="flex flex-col items-center gap-3">
+      {/* Saved looks */}
+      {presets && (
+        <PresetPicker
+          presets={presets}
+          onApply={onPresetApply}
+          onSave={onPresetSave}
+          onDelete={onPresetDelete}
+          onExport={onPresetsExport}
+          onImport={onPresetsImport}
+        />
+      )}
+
+      {/* Per-shader uniforms */}
+      {uniforms.length > 0 && (
+        <div className="flex flex-wrap items-center justify-center gap-4 md:gap-6">
+          {uniforms.map((uniform) => (
+            <UniformControl
+              key={uniform.name}
+              uniform={uniform}
+              value={uniformValues[uniform.name] ?? uniform.default}
+              onChange={(value) => onUniformChange?.(uniform.name, value)}
+            />
+          ))}
+          {onUniformsReset && (
+            <button
+              onClick={onUniformsReset}
+              className="flex items-center gap-1 rounded-lg bg-white/10 px-3 py-1.5 text-sm text-white/70 backdrop-blur-sm transition-colors hover:bg-white/20 hover:text-white"
+              title="Reset shader parameters"
+            >
+              <RotateCcw className="h-4 w-4" />
+              <span className="hidden sm:inline">Reset</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-4 md:gap-6">
+        {/* Play/Pause Button */}
+        <button
+          onClick={() => onPlayingChange(!isPlaying)}
+          className="flex items-center gap-2 rounded-lg bg-white/10 px-4 py-2 text-white backdrop-blur-sm transition-colors hover:bg-white/20"
+          title={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? (
+            <Pause className="h-5 w-5" />
+          ) : (
+            <Play className="h-5 w-5" />
+          )}
+          <span className="hidden sm:inline">{isPlaying ? "Pause" : "Play"}</span>
+        </button>
+
+        {/* Speed Control */}
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-white/70">Speed</label>
+          <input
+            type="range"
+            min="0.1"
+            max="3"
+            step="0.1"
+            value={speed}
+            onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
+            className="h-2 w-24 cursor-pointer appearance-none rounded-full bg-white/20 accent-primary md:w-32"
+          />
+          <span className="min-w-[2.5rem] text-sm text-white/70">
+            {speed.toFixed(1)}x
+          </span>
+        </div>
+
+        {/* Preview surface */}
+        {surface && onSurfaceChange && (
+          <div className="flex items-center gap-2">
+            <label className="text-sm text-white/70">Surface</label>
+            <select
+              value={surface}
+              onChange={(e) => onSurfaceChange(e.target.value as ShaderSurface)}
+              className="rounded-md bg-white/10 px-2 py-1 text-sm text-white"
+            >
+              {SHADER_SURFACES.map((option) => (
+                <option key={option.value} value={option.value} className="bg-black">
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
         )}
-        <span className="hidden sm:inline">{isPlaying ? "Pause" : "Play"}</span>
-      </button>
 
-      {/* Speed Control */}
-      <div className="flex items-center gap-2">
-        <label className="text-sm text-white/70">Speed</label>
-        <input
-          type="range"
-          min="0.1"
-          max="3"
-          step="0.1"
-          value={speed}
-          onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
-          className="h-2 w-24 cursor-pointer appearance-none rounded-full bg-white/20 accent-primary md:w-32"
-        />
-        <span className="min-w-[2.5rem] text-sm text-white/70">
-          {speed.toFixed(1)}x
-        </span>
-      </div>
+        {/* Color Presets */}
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-white/70">Color</label>
+          <div className="flex gap-1">
+            {COLOR_PRESETS.map((preset) => (
+              <button
+                key={preset.name}
+                onClick={() => onColorChange(preset.color)}
+                className={`h-6 w-6 rounded-full border-2 transition-transform hover:scale-110 ${
+                  baseColor === preset.color
+                    ? "border-white scale-110"
+                    : "border-transparent"
+                }`}
+                style={{ backgroundColor: preset.color }}
+                title={preset.name}
+              />
+            ))}
+            {/* Custom color picker */}
+            <div className="relative">
+              <input
+                type="color"
+                value={baseColor}
+                onChange={(e) => onColorChange(e.target.value)}
+                className="absolute inset-0 h-6 w-6 cursor-pointer opacity-0"
+                title="Custom Color"
+              />
+              <div
+                className="flex h-6 w-6 items-center justify-center rounded-full border-2 border-dashed border-white/40"
+                style={{
+                  background: `conic-gradient(red, yellow, lime, aqua, blue, magenta, red)`,
+                }}
+              >
+                <span className="text-[8px] font-bold text-white drop-shadow-md">
+                  +
+                </span>
+              </div>
+            </div>
+          </div>
+        </div>
 
-      {/* Color Presets */}
-      <div className="flex items-center gap-2">
-        <label className="text-sm text-white/70">Color</label>
-        <div className="flex gap-1">
-          {COLOR_PRESETS.map((preset) => (
+        {/* Audio Control (only for audio-reactive shaders) */}
+        {showAudioControl && (
+          <div className="flex items-center gap-2">
             <button
-              key={preset.name}
-              onClick={() => onColorChange(preset.color)}
-              className={`h-6 w-6 rounded-full border-2 transition-transform hover:scale-110 ${
-                baseColor === preset.color
-                  ? "border-white scale-110"
-                  : "border-transparent"
+              onClick={onMicrophoneToggle}
+              className={`flex items-center gap-2 rounded-lg px-4 py-2 backdrop-blur-sm transition-colors ${
+                audioSource === "microphone"
+                  ? "bg-primary text-white"
+                  : "bg-white/10 text-white hover:bg-white/20"
               }`}
-              style={{ backgroundColor: preset.color }}
-              title={preset.name}
-            />
-          ))}
-          {/* Custom color picker */}
-          <div className="relative">
-            <input
-              type="color"
-              value={baseColor}
-              onChange={(e) => onColorChange(e.target.value)}
-              className="absolute inset-0 h-6 w-6 cursor-pointer opacity-0"
-              title="Custom Color"
-            />
-            <div
-              className="flex h-6 w-6 items-center justify-center rounded-full border-2 border-dashed border-white/40"
-              style={{
-                background: `conic-gradient(red, yellow, lime, aqua, blue, magenta, red)`,
-              }}
+              title={audioSource === "microphone" ? "Disable Microphone" : "Enable Microphone"}
             >
-              <span className="text-[8px] font-bold text-white drop-shadow-md">
-                +
+              {audioSource === "microphone" ? (
+                <Volume2 className="h-5 w-5" />
+              ) : (
+                <VolumeX className="h-5 w-5" />
+              )}
+              <span className="hidden sm:inline">
+                {audioSource === "microphone" ? "Mic On" : "Mic Off"}
               </span>
-            </div>
+            </button>
+
+            {/* Local audio file */}
+            <label
+              className={`flex cursor-pointer items-center gap-2 rounded-lg px-4 py-2 backdrop-blur-sm transition-colors ${
+                audioSource === "file"
+                  ? "bg-primary text-white"
+                  : "bg-white/10 text-white hover:bg-white/20"
+              }`}
+              title={audioTrackName ?? "Play a local audio file"}
+            >
+              <Music className="h-5 w-5" />
+              <span className="hidden max-w-[8rem] truncate sm:inline">
+                {audioTrackName ?? "Load Track"}
+              </span>
+              <input
+                type="file"
+                accept="audio/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onAudioFileSelect(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+
+            {/* Band meters + beat indicator */}
+            {audioSource && (
+              <div className="flex h-6 items-end gap-1">
+                {(["bass", "mid", "treble"] as const).map((band) => (
+                  <div
+                    key={band}
+                    className="w-1.5 rounded-full bg-primary transition-all"
+                    style={{ height: `${Math.max(8, audioLevels[band] * 100)}%` }}
+                    title={band}
+                  />
+                ))}
+                <div
+                  className="mb-1 ml-1 h-2 w-2 self-center rounded-full bg-accent-cyan"
+                  style={{ opacity: 0.2 + audioLevels.beat * 0.8 }}
+                  title="Beat"
+                />
+              </div>
+            )}
           </div>
+        )}
+
+        {/* Keyboard Shortcuts Hint */}
+        <div className="hidden text-xs text-white/40 lg:block">
+          <span className="rounded bg-white/10 px-1.5 py-0.5">Space</span> Play/Pause
+          {" · "}
+          <span className="rounded bg-white/10 px-1.5 py-0.5">←→</span> Navigate
+          {" · "}
+          <span className="rounded bg-white/10 px-1.5 py-0.5">Esc</span> Close
         </div>
       </div>
+    </div>
+  );
+}
+
+interface PresetPickerProps {
+  presets: ShaderPreset[];
+  onApply?: (preset: ShaderPreset) => void;
+  onSave?: (name: string) => void;
+  onDelete?: (name: string) => void;
+  onExport?: () => void;
+  onImport?: (file: File) => void;
+}
 
-      {/* Audio Control (only for audio-reactive shaders) */}
-      {showAudioControl && (
+const presetButtonClassName =
+  "rounded-lg bg-white/10 p-1.5 text-white/70 backdrop-blur-sm transition-colors hover:bg-white/20 hover:text-white disabled:cursor-not-allowed disabled:opacity-40";
+
+function PresetPicker({ presets, onApply, onSave, onDelete, onExport, onImport }: PresetPickerProps) {
+  const [selected, setSelected] = useState("");
+  const [name, setName] = useState("");
+
+  // The selection may have been deleted or belong to another shader
+  const selectedName = presets.some((preset) => preset.name === selected) ? selected : "";
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave?.(trimmed);
+    setSelected(trimmed);
+    setName("");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <Bookmark className="h-4 w-4 text-white/70" />
+      <select
+        value={selectedName}
+        onChange={(e) => {
+          setSelected(e.target.value);
+          const preset = presets.find((p) => p.name === e.target.value);
+          if (preset) onApply?.(preset);
+        }}
+        className="rounded-md bg-white/10 px-2 py-1 text-sm text-white"
+      >
+        <option value="" className="bg-black">
+          {presets.length > 0 ? "Presets…" : "No presets"}
+        </option>
+        {presets.map((preset) => (
+          <option key={preset.name} value={preset.name} className="bg-black">
+            {preset.name}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => onDelete?.(selectedName)}
+        disabled={!selectedName}
+        className={presetButtonClassName}
+        title="Delete preset"
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") save();
+        }}
+        placeholder="Preset name"
+        className="w-32 rounded-md bg-white/10 px-2 py-1 text-sm text-white placeholder:text-white/40"
+      />
+      <button
+        onClick={save}
+        disabled={!name.trim()}
+        className={presetButtonClassName}
+        title="Save current look as preset"
+      >
+        <Save className="h-4 w-4" />
+      </button>
+
+      <button
+        onClick={onExport}
+        disabled={presets.length === 0}
+        className={presetButtonClassName}
+        title="Export presets as JSON"
+      >
+        <Download className="h-4 w-4" />
+      </button>
+      <label className={`cursor-pointer ${presetButtonClassName}`} title="Import presets from JSON">
+        <Upload className="h-4 w-4" />
+        <input
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport?.(file);
+            e.target.value = "";
+          }}
+        />
+      </label>
+    </div>
+  );
+}
+
+interface UniformControlProps {
+  uniform: ShaderUniformDefinition;
+  value: ShaderUniformValue;
+  onChange: (value: ShaderUniformValue) => void;
+}
+
+const sliderClassName =
+  "h-2 w-20 cursor-pointer appearance-none rounded-full bg-white/20 accent-primary md:w-24";
+
+// Enough decimals to show a single slider step (0.005 -> 3, at least 1)
+function stepDecimals(step: number) {
+  return Math.max(1, Math.ceil(-Math.log10(step) - 1e-9));
+}
+
+// Builds the right input for a uniform's declared type
+function UniformControl({ uniform, value, onChange }: UniformControlProps) {
+  switch (uniform.type) {
+    case "float":
+      return (
         <div className="flex items-center gap-2">
-          <button
-            onClick={onAudioToggle}
-            className={`flex items-center gap-2 rounded-lg px-4 py-2 backdrop-blur-sm transition-colors ${
-              audioEnabled
-                ? "bg-primary text-white"
-                : "bg-white/10 text-white hover:bg-white/20"
-            }`}
-            title={audioEnabled ? "Disable Microphone" : "Enable Microphone"}
-          >
-            {audioEnabled ? (
-              <Volume2 className="h-5 w-5" />
-            ) : (
-              <VolumeX className="h-5 w-5" />
-            )}
-            <span className="hidden sm:inline">
-              {audioEnabled ? "Mic On" : "Mic Off"}
-            </span>
-          </button>
-
-          {/* Audio Level Indicator */}
-          {audioEnabled && (
-            <div className="flex h-6 items-end gap-0.5">
-              {[...Array(8)].map((_, i) => (
-                <div
-                  key={i}
-                  className="w-1 rounded-full bg-primary transition-all"
-                  style={{
-                    height: `${Math.max(4, audioLevel * 100 * ((i + 1) / 8))}%`,
-                    opacity: audioLevel > i / 10 ? 1 : 0.3,
-                  }}
-                />
+          <label className="text-sm text-white/70">{uniform.label}</label>
+          <input
+            type="range"
+            min={uniform.min}
+            max={uniform.max}
+            step={uniform.step}
+            value={value as number}
+            onChange={(e) => onChange(parseFloat(e.target.value))}
+            className={sliderClassName}
+          />
+          <span className="min-w-[2.5rem] text-sm text-white/70">
+            {(value as number).toFixed(stepDecimals(uniform.step))}
+          </span>
+        </div>
+      );
+
+    case "int":
+      return (
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-white/70">{uniform.label}</label>
+          {uniform.options ? (
+            <select
+              value={value as number}
+              onChange={(e) => onChange(parseInt(e.target.value, 10))}
+              className="rounded-md bg-white/10 px-2 py-1 text-sm text-white backdrop-blur-sm"
+            >
+              {uniform.options.map((option) => (
+                <option key={option.value} value={option.value} className="bg-black">
+                  {option.label}
+                </option>
               ))}
-            </div>
+            </select>
+          ) : (
+            <>
+              <input
+                type="range"
+                min={uniform.min}
+                max={uniform.max}
+                step={1}
+                value={value as number}
+                onChange={(e) => onChange(parseInt(e.target.value, 10))}
+                className={sliderClassName}
+              />
+              <span className="min-w-[1.5rem] text-sm text-white/70">{value as number}</span>
+            </>
           )}
         </div>
-      )}
+      );
 
-      {/* Keyboard Shortcuts Hint */}
-      <div className="hidden text-xs text-white/40 lg:block">
-        <span className="rounded bg-white/10 px-1.5 py-0.5">Space</span> Play/Pause
-        {" · "}
-        <span className="rounded bg-white/10 px-1.5 py-0.5">←→</span> Navigate
-        {" · "}
-        <span className="rounded bg-white/10 px-1.5 py-0.5">Esc</span> Close
-      </div>
-    </div>
-  );
+    case "vec2": {
+      const [x, y] = value as [number, number];
+      return (
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-white/70">{uniform.label}</label>
+          {[x, y].map((component, axis) => (
+            <input
+              key={axis}
+              type="range"
+              min={uniform.min}
+              max={uniform.max}
+              step={uniform.step}
+              value={component}
+              onChange={(e) => {
+                const next: [number, number] = [x, y];
+                next[axis] = parseFloat(e.target.value);
+                onChange(next);
+              }}
+              className="h-2 w-16 cursor-pointer appearance-none rounded-full bg-white/20 accent-primary"
+              title={`${uniform.label} ${axis === 0 ? "X" : "Y"}`}
+            />
+          ))}
+          <span className="min-w-[4.5rem] text-sm text-white/70">
+            {x.toFixed(1)}, {y.toFixed(1)}
+          </span>
+        </div>
+      );
+    }
+
+    case "color":
+      return (
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-white/70">{uniform.label}</label>
+          <input
+            type="color"
+            value={value as string}
+            onChange={(e) => onChange(e.target.value)}
+            className="h-6 w-6 cursor-pointer rounded-full border-2 border-white/40 bg-transparent"
+          />
+        </div>
+      );
+
+    case "bool":
+      return (
+        <label className="flex cursor-pointer items-center gap-2 text-sm text-white/70">
+          <input
+            type="checkbox"
+            checked={value as boolean}
+            onChange={(e) => onChange(e.target.checked)}
+            className="h-4 w-4 cursor-pointer accent-primary"
+          />
+          {uniform.label}
+        </label>
+      );
+  }
 }
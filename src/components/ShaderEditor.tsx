@@ -0,0 +1,145 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { RotateCcw, AlertTriangle, Check, Braces } from "lucide-react";
+import type { ShaderCompileError } from "@/components/canvas/shaders/compile";
+import { expandShaderIncludes } from "@/components/canvas/shaders/includes";
+
+interface ShaderEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: ShaderCompileError[];
+  isModified: boolean;
+  isCompiling: boolean;
+  onReset: () => void;
+}
+
+const INDENT = "  ";
+const INCLUDE_PATTERN = /^[ \t]*#include\s*</m;
+
+export function ShaderEditor({
+  value,
+  onChange,
+  errors,
+  isModified,
+  isCompiling,
+  onReset,
+}: ShaderEditorProps) {
+  // Read-only view of the source with #include chunks inlined
+  const [showExpanded, setShowExpanded] = useState(false);
+  const hasIncludes = INCLUDE_PATTERN.test(value);
+  const isExpanded = showExpanded && hasIncludes;
+  const displayValue = useMemo(
+    () => (isExpanded ? expandShaderIncludes(value) : value),
+    [isExpanded, value]
+  );
+
+  const lineCount = useMemo(() => displayValue.split("\n").length, [displayValue]);
+  // Error lines refer to the unexpanded source
+  const errorLines = useMemo(
+    () =>
+      new Set(
+        isExpanded ? [] : errors.map((error) => error.line).filter((line) => line !== null)
+      ),
+    [errors, isExpanded]
+  );
+
+  // Insert spaces on Tab instead of moving focus
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== "Tab" || isExpanded) return;
+    e.preventDefault();
+
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    const next = value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd);
+    onChange(next);
+
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + INDENT.length;
+    });
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* Header */}
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-semibold text-primary">Fragment Shader</h3>
+          {isModified && (
+            <span className="rounded-full bg-primary/20 px-2 py-0.5 text-xs text-primary">
+              Modified
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          {/* Compile status */}
+          {errors.length > 0 ? (
+            <span className="flex items-center gap-1 text-xs text-red-400">
+              <AlertTriangle className="h-3 w-3" />
+              {errors.length} {errors.length === 1 ? "error" : "errors"}
+            </span>
+          ) : (
+            <span className="flex items-center gap-1 text-xs text-white/50">
+              <Check className="h-3 w-3" />
+              {isCompiling ? "Compiling..." : "Compiled"}
+            </span>
+          )}
+
+          {hasIncludes && (
+            <button
+              onClick={() => setShowExpanded(!showExpanded)}
+              className={`flex items-center gap-1 rounded-md px-2 py-1 text-xs transition-colors ${
+                isExpanded ? "bg-primary text-white" : "bg-white/10 text-white hover:bg-white/20"
+              }`}
+              title={isExpanded ? "Back to editable source" : "Show source with includes expanded"}
+            >
+              <Braces className="h-3 w-3" />
+              {isExpanded ? "Collapse" : "Expand"}
+            </button>
+          )}
+
+          <button
+            onClick={onReset}
+            disabled={!isModified}
+            className="flex items-center gap-1 rounded-md bg-white/10 px-2 py-1 text-xs text-white transition-colors hover:bg-white/20 disabled:cursor-not-allowed disabled:opacity-40"
+            title="Revert to original source"
+          >
+            <RotateCcw className="h-3 w-3" />
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {/* Editor body: gutter + textarea share one scroll container */}
+      <div className="flex min-h-0 flex-1 overflow-auto rounded-md bg-black/60 font-mono text-xs leading-5">
+        <div
+          className="sticky left-0 select-none bg-black/80 py-2 pl-2 pr-3 text-right text-white/30"
+          aria-hidden
+        >
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div
+              key={i}
+              className={errorLines.has(i + 1) ? "bg-red-500/30 text-red-300" : undefined}
+            >
+              {i + 1}
+            </div>
+          ))}
+        </div>
+        <textarea
+          value={displayValue}
+          onChange={(e) => onChange(e.target.value)}
+          readOnly={isExpanded}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoCorrect="off"
+          wrap="off"
+          rows={lineCount}
+          className="flex-1 resize-none overflow-hidden bg-transparent px-3 py-2 text-white/90 outline-none"
+          aria-label="Fragment shader source"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import {
+  EXPORT_RESOLUTIONS,
+  type ShaderExportMode,
+  type ShaderExportOptions,
+} from "@/components/canvas/shaders/export";
+
+interface ShaderExportPanelProps {
+  onExport: (
+    options: ShaderExportOptions,
+    onProgress: (completed: number, total: number) => void
+  ) => Promise<void>;
+}
+
+const FPS_OPTIONS = [24, 30, 60];
+const MAX_FRAMES = 600;
+
+export function ShaderExportPanel({ onExport }: ShaderExportPanelProps) {
+  const [mode, setMode] = useState<ShaderExportMode>("png");
+  const [resolutionIndex, setResolutionIndex] = useState(2); // 4K
+  const [frameCount, setFrameCount] = useState(120);
+  const [fps, setFps] = useState(30);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const resolution = EXPORT_RESOLUTIONS[resolutionIndex];
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    setError(null);
+    setProgress({ completed: 0, total: mode === "png" ? 1 : frameCount });
+    try {
+      await onExport(
+        { mode, width: resolution.width, height: resolution.height, frameCount, fps },
+        (completed, total) => setProgress({ completed, total })
+      );
+    } catch (err) {
+      console.error("Shader export failed:", err);
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm text-white/80">
+      <h3 className="text-sm font-semibold text-primary">Export</h3>
+
+      {/* Mode */}
+      <div className="flex gap-1 rounded-lg bg-white/5 p-1">
+        {(["png", "sequence"] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`flex-1 rounded-md px-3 py-1 transition-colors ${
+              mode === option ? "bg-primary text-white" : "hover:bg-white/10"
+            }`}
+          >
+            {option === "png" ? "Still PNG" : "Frame Sequence"}
+          </button>
+        ))}
+      </div>
+
+      {/* Resolution */}
+      <label className="flex items-center justify-between gap-3">
+        <span className="text-white/70">Resolution</span>
+        <select
+          value={resolutionIndex}
+          onChange={(e) => setResolutionIndex(parseInt(e.target.value, 10))}
+          className="rounded-md bg-white/10 px-2 py-1 text-white"
+        >
+          {EXPORT_RESOLUTIONS.map((option, i) => (
+            <option key={option.label} value={i} className="bg-black">
+              {option.label} ({option.width}×{option.height})
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {/* Sequence settings */}
+      {mode === "sequence" && (
+        <>
+          <label className="flex items-center justify-between gap-3">
+            <span className="text-white/70">Frames</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_FRAMES}
+              value={frameCount}
+              onChange={(e) =>
+                setFrameCount(Math.min(MAX_FRAMES, Math.max(1, parseInt(e.target.value, 10) || 1)))
+              }
+              className="w-20 rounded-md bg-white/10 px-2 py-1 text-right text-white"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-3">
+            <span className="text-white/70">Frame rate</span>
+            <select
+              value={fps}
+              onChange={(e) => setFps(parseInt(e.target.value, 10))}
+              className="rounded-md bg-white/10 px-2 py-1 text-white"
+            >
+              {FPS_OPTIONS.map((option) => (
+                <option key={option} value={option} className="bg-black">
+                  {option} fps
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-white/50">
+            {(frameCount / fps).toFixed(1)}s loop from t = 0, packaged as a zip
+          </p>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <button
+        onClick={handleExport}
+        disabled={isExporting}
+        className="flex w-full items-center justify-center gap-2 rounded-lg bg-primary px-4 py-2 font-medium text-white transition-colors hover:bg-primary/80 disabled:cursor-wait disabled:opacity-70"
+      >
+        {isExporting ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Rendering {progress.completed}/{progress.total}
+          </>
+        ) : (
+          <>
+            <Download className="h-4 w-4" />
+            Export
+          </>
+        )}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useMemo, useState, type RefObject } from "react";
+import { Gauge, Loader2, ArrowUp, ArrowDown } from "lucide-react";
+import {
+  BENCHMARK_RESOLUTIONS,
+  createProfilerStats,
+  type ProfilerStats,
+  type ShaderBenchmarkOptions,
+  type ShaderBenchmarkResult,
+} from "@/components/canvas/shaders/profiler";
+
+interface ShaderProfilerPanelProps {
+  /** Live stats written by ShaderProfiler inside the canvas */
+  statsRef: RefObject<ProfilerStats>;
+  onBenchmark: (
+    options: ShaderBenchmarkOptions,
+    onProgress: (results: ShaderBenchmarkResult[], total: number) => void
+  ) => Promise<ShaderBenchmarkResult[]>;
+}
+
+type SortKey = "name" | "gpuMs" | "cpuMs";
+
+const FRAME_OPTIONS = [60, 120, 300];
+const POLL_INTERVAL_MS = 250;
+
+function formatMs(value: number | null) {
+  return value === null ? "—" : `${value.toFixed(2)} ms`;
+}
+
+export function ShaderProfilerPanel({ statsRef, onBenchmark }: ShaderProfilerPanelProps) {
+  const [stats, setStats] = useState<ProfilerStats>(createProfilerStats);
+  const [resolutionIndex, setResolutionIndex] = useState(1); // 1080p
+  const [frames, setFrames] = useState(120);
+  const [results, setResults] = useState<ShaderBenchmarkResult[]>([]);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: "gpuMs",
+    descending: true,
+  });
+
+  // Stats live in a ref written every frame; sample it for display
+  useEffect(() => {
+    const interval = setInterval(() => setStats({ ...statsRef.current }), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [statsRef]);
+
+  const hasGpuTiming = results.some((result) => result.gpuMs !== null);
+
+  const sortedResults = useMemo(() => {
+    const direction = sort.descending ? -1 : 1;
+    return [...results].sort((a, b) => {
+      if (sort.key === "name") return a.name.localeCompare(b.name) * direction;
+      // Rows without GPU timing fall back to CPU time
+      const aValue = sort.key === "gpuMs" ? (a.gpuMs ?? a.cpuMs) : a.cpuMs;
+      const bValue = sort.key === "gpuMs" ? (b.gpuMs ?? b.cpuMs) : b.cpuMs;
+      return (aValue - bValue) * direction;
+    });
+  }, [results, sort]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : key !== "name" }));
+
+  const runBenchmark = async () => {
+    const resolution = BENCHMARK_RESOLUTIONS[resolutionIndex];
+    setError(null);
+    setResults([]);
+    setProgress({ completed: 0, total: 1 });
+    try {
+      const finalResults = await onBenchmark(
+        { width: resolution.width, height: resolution.height, frames },
+        (partial, total) => {
+          setResults(partial);
+          setProgress({ completed: partial.length, total });
+        }
+      );
+      setResults(finalResults);
+    } catch (err) {
+      console.error("Shader benchmark failed:", err);
+      setError(err instanceof Error ? err.message : "Benchmark failed");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const sortIcon = (key: SortKey) =>
+    sort.key === key &&
+    (sort.descending ? (
+      <ArrowDown className="inline h-3 w-3" />
+    ) : (
+      <ArrowUp className="inline h-3 w-3" />
+    ));
+
+  return (
+    <div className="space-y-3 text-sm text-white/80">
+      <h3 className="text-sm font-semibold text-primary">Profiler</h3>
+
+      {/* Live stats */}
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="rounded-md bg-white/5 p-2">
+          <div className="text-xs text-white/50">GPU</div>
+          <div className="font-mono">{formatMs(stats.gpuMs)}</div>
+        </div>
+        <div className="rounded-md bg-white/5 p-2">
+          <div className="text-xs text-white/50">Frame</div>
+          <div className="font-mono">{formatMs(stats.cpuMs)}</div>
+        </div>
+        <div className="rounded-md bg-white/5 p-2">
+          <div className="text-xs text-white/50">FPS</div>
+          <div className="font-mono">{stats.fps.toFixed(0)}</div>
+        </div>
+      </div>
+      {stats.gpuMs === null && (
+        <p className="text-xs text-white/50">
+          GPU timer queries unavailable; showing CPU frame time only.
+        </p>
+      )}
+
+      {/* Benchmark settings */}
+      <div className="flex items-center gap-2">
+        <select
+          value={resolutionIndex}
+          onChange={(e) => setResolutionIndex(parseInt(e.target.value, 10))}
+          className="flex-1 rounded-md bg-white/10 px-2 py-1 text-white"
+        >
+          {BENCHMARK_RESOLUTIONS.map((option, i) => (
+            <option key={option.label} value={i} className="bg-black">
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={frames}
+          onChange={(e) => setFrames(parseInt(e.target.value, 10))}
+          className="flex-1 rounded-md bg-white/10 px-2 py-1 text-white"
+        >
+          {FRAME_OPTIONS.map((option) => (
+            <option key={option} value={option} className="bg-black">
+              {option} frames
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <button
+        onClick={runBenchmark}
+        disabled={progress !== null}
+        className="flex w-full items-center justify-center gap-2 rounded-lg bg-primary px-4 py-2 font-medium text-white transition-colors hover:bg-primary/80 disabled:cursor-wait disabled:opacity-70"
+      >
+        {progress ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Benchmarking {progress.completed}/{progress.total}
+          </>
+        ) : (
+          <>
+            <Gauge className="h-4 w-4" />
+            Benchmark All Shaders
+          </>
+        )}
+      </button>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {/* Results */}
+      {results.length > 0 && (
+        <table className="w-full text-left text-xs">
+          <thead className="text-white/50">
+            <tr>
+              <th className="cursor-pointer py-1" onClick={() => toggleSort("name")}>
+                Shader {sortIcon("name")}
+              </th>
+              {hasGpuTiming && (
+                <th className="cursor-pointer py-1 text-right" onClick={() => toggleSort("gpuMs")}>
+                  GPU {sortIcon("gpuMs")}
+                </th>
+              )}
+              <th className="cursor-pointer py-1 text-right" onClick={() => toggleSort("cpuMs")}>
+                CPU {sortIcon("cpuMs")}
+              </th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {sortedResults.map((result) => (
+              <tr key={result.id} className="border-t border-white/5">
+                <td className="py-1 font-sans">{result.name}</td>
+                {hasGpuTiming && <td className="py-1 text-right">{formatMs(result.gpuMs)}</td>}
+                <td className="py-1 text-right">{formatMs(result.cpuMs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
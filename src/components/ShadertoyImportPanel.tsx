@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { Upload, AlertTriangle } from "lucide-react";
+import {
+  createShadertoyDefinition,
+  ShadertoyImportError,
+} from "@/components/canvas/shaders/shadertoy";
+import type { ShaderDefinition } from "@/components/canvas/shaders/types";
+import type { ShaderCompileError } from "@/components/canvas/shaders/compile";
+
+interface ShadertoyImportPanelProps {
+  /** Receives the wrapped definition; the caller registers it */
+  onImport: (definition: ShaderDefinition) => void;
+}
+
+const PLACEHOLDER = `void mainImage(out vec4 fragColor, in vec2 fragCoord) {
+  vec2 uv = fragCoord / iResolution.xy;
+  fragColor = vec4(uv, 0.5 + 0.5 * sin(iTime), 1.0);
+}`;
+
+export function ShadertoyImportPanel({ onImport }: ShadertoyImportPanelProps) {
+  const [source, setSource] = useState("");
+  const [name, setName] = useState("");
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [compileErrors, setCompileErrors] = useState<ShaderCompileError[]>([]);
+
+  const loadFile = async (file: File) => {
+    setSource(await file.text());
+    if (!name) setName(file.name.replace(/\.[^.]+$/, ""));
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) loadFile(file);
+  };
+
+  const handleImport = () => {
+    try {
+      onImport(createShadertoyDefinition(source, name));
+      setSource("");
+      setName("");
+      setError(null);
+      setCompileErrors([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+      setCompileErrors(err instanceof ShadertoyImportError ? err.errors : []);
+    }
+  };
+
+  return (
+    <div className="glass-card space-y-3 p-4 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-primary">Import from Shadertoy</h3>
+        <p className="text-xs text-foreground-muted">
+          Paste or drop a shader with a mainImage function. iTime, iResolution, iMouse,
+          iFrame and iChannel0 (previous frame) are supported.
+        </p>
+      </div>
+
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Shader name"
+        className="w-full rounded-md bg-white/5 px-3 py-2 text-foreground placeholder:text-foreground-muted/60"
+      />
+
+      <textarea
+        value={source}
+        onChange={(e) => setSource(e.target.value)}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        placeholder={PLACEHOLDER}
+        spellCheck={false}
+        className={`h-48 w-full resize-y rounded-md bg-black/40 p-3 font-mono text-xs leading-5 text-white/90 outline-none transition-colors placeholder:text-white/30 ${
+          isDragging ? "ring-2 ring-primary" : ""
+        }`}
+      />
+
+      {error && (
+        <div className="rounded-md border border-red-500/40 bg-red-500/10 p-2 text-xs text-red-200">
+          <div className="flex items-center gap-2 font-semibold text-red-400">
+            <AlertTriangle className="h-4 w-4" />
+            {error}
+          </div>
+          {compileErrors.length > 0 && (
+            <ul className="mt-1 max-h-32 space-y-1 overflow-auto font-mono">
+              {compileErrors.map((compileError, i) => (
+                <li key={i}>
+                  {compileError.line !== null && (
+                    <span className="mr-2 text-red-400">Line {compileError.line}:</span>
+                  )}
+                  {compileError.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex cursor-pointer items-center gap-2 rounded-lg bg-white/10 px-3 py-2 text-foreground transition-colors hover:bg-white/20">
+          <Upload className="h-4 w-4" />
+          Open File
+          <input
+            type="file"
+            accept=".glsl,.frag,.txt,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadFile(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        <button
+          onClick={handleImport}
+          disabled={!source.trim()}
+          className="rounded-lg bg-primary px-4 py-2 font-medium text-white transition-colors hover:bg-primary/80 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Add to Gallery
+        </button>
+      </div>
+    </div>
+  );
+}
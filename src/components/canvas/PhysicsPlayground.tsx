@@ -9,11 +9,53 @@ import {
   Preload,
 } from "@react-three/drei";
 import { Leva } from "leva";
-import { Suspense, useState, useCallback, useRef } from "react";
+import { Suspense, useState, useCallback, useRef, useEffect } from "react";
 import { useDeviceDetection, getOptimalDPR } from "@/hooks/useDeviceDetection";
+import { usePhysicsPresets } from "@/hooks/usePhysicsPresets";
+import { usePhysicsModels } from "@/hooks/usePhysicsModels";
 import { PhysicsScene } from "./physics/PhysicsScene";
 import { PhysicsControls } from "./physics/PhysicsControls";
-import type { PhysicsObjectType, PresetType } from "./physics/types";
+import { ReplayControls } from "./physics/ReplayControls";
+import { PhysicsInspector } from "./physics/PhysicsInspector";
+import { CollisionLog } from "./physics/CollisionLog";
+import { createImpactLog, type PhysicsImpactLog } from "./physics/impacts";
+import {
+  buildPhysicsSceneLink,
+  parsePhysicsSceneFile,
+  serializePhysicsScene,
+  toSerializedScene,
+} from "./physics/serialization";
+import {
+  createPhysicsRecording,
+  createPlaybackClock,
+  type PhysicsRecording,
+  type PlaybackClock,
+} from "./physics/recording";
+import {
+  createPhysicsPreset,
+  deleteUserPhysicsPreset,
+  saveUserPhysicsPreset,
+} from "./physics/presets";
+import { importPhysicsModelFile, isPhysicsModelFile } from "./physics/models";
+import { downloadBlob } from "@/lib/download";
+import {
+  DEFAULT_PHYSICS_MATERIAL,
+  type PhysicsForceTool,
+  type PhysicsInspectorApi,
+  type PhysicsLinkTool,
+  type PhysicsMaterialName,
+  type PhysicsModel,
+  type PhysicsObject,
+  type PhysicsObjectType,
+  type PhysicsPreset,
+  type PhysicsSceneSnapshot,
+  type ReplayMode,
+  type SerializedPhysicsScene,
+} from "./physics/types";
+
+// One mesh per body, or far more bodies when primitives share instanced meshes
+const OBJECT_LIMITS = { mobile: 30, tablet: 40, desktop: 60 };
+const INSTANCED_OBJECT_LIMITS = { mobile: 150, tablet: 400, desktop: 2000 };
 
 export function PhysicsPlayground() {
   const isDev = process.env.NODE_ENV === "development";
@@ -26,23 +68,199 @@ export function PhysicsPlayground() {
   const [antiGravity, setAntiGravity] = useState(false);
   const [objectCount, setObjectCount] = useState(0);
   const [fps, setFps] = useState(60);
+  const [spawnMaterial, setSpawnMaterial] =
+    useState<PhysicsMaterialName>(DEFAULT_PHYSICS_MATERIAL);
+  // Instanced meshes lift the object limit; rain fills the arena up to it
+  const [instanced, setInstanced] = useState(false);
+  const [raining, setRaining] = useState(false);
+
+  // Impact feedback (the log fills even while its panel is closed)
+  const [soundEnabled, setSoundEnabled] = useState(true);
+  const [showCollisionLog, setShowCollisionLog] = useState(false);
+  const impactLogRef = useRef<PhysicsImpactLog>(createImpactLog());
 
   // Spawn and reset refs (controlled by PhysicsScene)
-  const spawnRef = useRef<((type: PhysicsObjectType) => void) | null>(null);
+  const spawnRef = useRef<((type: PhysicsObjectType, model?: string) => void) | null>(null);
   const resetRef = useRef<(() => void) | null>(null);
-  const loadPresetRef = useRef<((preset: PresetType) => void) | null>(null);
+  const captureSceneRef = useRef<(() => PhysicsSceneSnapshot) | null>(null);
+  const loadSceneRef = useRef<((scene: SerializedPhysicsScene) => void) | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
 
-  // Handlers
-  const handleSpawn = useCallback((type: PhysicsObjectType) => {
-    spawnRef.current?.(type);
+  // Joints (picking bodies links them while the link tool is on)
+  const [linkTool, setLinkTool] = useState<PhysicsLinkTool | null>(null);
+  const clearJointsRef = useRef<(() => void) | null>(null);
+
+  // Force fields (clicking the ground places one while the force tool is on)
+  const [forceTool, setForceTool] = useState<PhysicsForceTool | null>(null);
+  const clearForceFieldsRef = useRef<(() => void) | null>(null);
+
+  // Selected body and the scene functions the inspector drives
+  const [selectedObject, setSelectedObject] = useState<PhysicsObject | null>(null);
+  const inspectorRef = useRef<PhysicsInspectorApi | null>(null);
+
+  // Picking bodies can either link or push, not both
+  const handleLinkToolChange = useCallback((tool: PhysicsLinkTool | null) => {
+    setLinkTool(tool);
+    if (tool) setForceTool(null);
+  }, []);
+
+  const handleForceToolChange = useCallback((tool: PhysicsForceTool | null) => {
+    setForceTool(tool);
+    if (tool) setLinkTool(null);
   }, []);
 
+  // Record and replay
+  const recordingRef = useRef<PhysicsRecording | null>(null);
+  const playbackClockRef = useRef<PlaybackClock>(createPlaybackClock());
+  const startPlaybackRef = useRef<((recording: PhysicsRecording) => void) | null>(null);
+  const stopPlaybackRef = useRef<(() => void) | null>(null);
+  const [replayMode, setReplayMode] = useState<ReplayMode>("idle");
+  const [recording, setRecording] = useState<PhysicsRecording | null>(null);
+
+  const handleStopRecording = useCallback(() => {
+    const finished = recordingRef.current;
+    recordingRef.current = null;
+    if (finished && finished.frames.length > 0) setRecording(finished);
+    setReplayMode("idle");
+  }, []);
+
+  const handleExitPlayback = useCallback(() => {
+    stopPlaybackRef.current?.();
+    setReplayMode("idle");
+  }, []);
+
+  // Editing the scene ends playback first
+  const exitPlayback = useCallback(() => {
+    if (replayMode === "playback") handleExitPlayback();
+  }, [replayMode, handleExitPlayback]);
+
+  const handleRecord = useCallback(() => {
+    exitPlayback();
+    recordingRef.current = createPhysicsRecording(captureSceneRef.current?.().objects ?? []);
+    setReplayMode("recording");
+  }, [exitPlayback]);
+
+  const handlePlay = useCallback(() => {
+    if (!recording) return;
+    startPlaybackRef.current?.(recording);
+    setReplayMode("playback");
+  }, [recording]);
+
+  // Handlers
+  const handleSpawn = useCallback(
+    (type: PhysicsObjectType) => {
+      exitPlayback();
+      spawnRef.current?.(type);
+    },
+    [exitPlayback]
+  );
+
+  // Models from the assets folder plus files imported this session
+  const builtInModels = usePhysicsModels();
+  const [importedModels, setImportedModels] = useState<PhysicsModel[]>([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+
+  const handleSpawnModel = useCallback(
+    (model: PhysicsModel) => {
+      exitPlayback();
+      spawnRef.current?.("mesh", model.url);
+    },
+    [exitPlayback]
+  );
+
+  const handleImportModels = useCallback(
+    async (files: File[]) => {
+      const imported = await Promise.all(
+        files.filter(isPhysicsModelFile).map(async (file) => {
+          try {
+            return await importPhysicsModelFile(file);
+          } catch (err) {
+            console.error(`Failed to import model "${file.name}":`, err);
+            return null;
+          }
+        })
+      );
+      const models = imported.filter((model) => model !== null);
+      if (models.length === 0) return;
+
+      setImportedModels((prev) => [...prev, ...models]);
+      // Drop one of each straight into the scene
+      models.forEach(handleSpawnModel);
+    },
+    [handleSpawnModel]
+  );
+
   const handleReset = useCallback(() => {
+    exitPlayback();
     resetRef.current?.();
+  }, [exitPlayback]);
+
+  // Scene presets (built-in files plus scenes saved in this browser)
+  const presets = usePhysicsPresets();
+
+  const handleLoadPreset = useCallback(
+    (preset: PhysicsPreset) => {
+      exitPlayback();
+      loadSceneRef.current?.(preset);
+    },
+    [exitPlayback]
+  );
+
+  const handleSavePreset = useCallback((name: string) => {
+    const snapshot = captureSceneRef.current?.();
+    if (!snapshot || !name.trim()) return;
+    saveUserPhysicsPreset(createPhysicsPreset(name, snapshot));
   }, []);
 
-  const handleLoadPreset = useCallback((preset: PresetType) => {
-    loadPresetRef.current?.(preset);
+  const handleSaveScene = useCallback(() => {
+    const snapshot = captureSceneRef.current?.();
+    if (!snapshot) return;
+    downloadBlob(
+      new Blob([serializePhysicsScene(toSerializedScene(snapshot))], { type: "application/json" }),
+      "physics-scene.json"
+    );
+  }, []);
+
+  const handleOpenScene = useCallback(
+    async (file: File) => {
+      try {
+        const scene = parsePhysicsSceneFile(await file.text());
+        exitPlayback();
+        loadSceneRef.current?.(scene);
+      } catch (err) {
+        console.error("Failed to open physics scene:", err);
+      }
+    },
+    [exitPlayback]
+  );
+
+  const handleShareScene = useCallback(async () => {
+    const snapshot = captureSceneRef.current?.();
+    if (!snapshot) return;
+    try {
+      const url = await buildPhysicsSceneLink(toSerializedScene(snapshot));
+      window.history.replaceState(null, "", url);
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+    } catch (err) {
+      console.error("Failed to share physics scene:", err);
+    }
+  }, []);
+
+  // Reset the copied indicator
+  useEffect(() => {
+    if (!linkCopied) return;
+    const timeout = setTimeout(() => setLinkCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [linkCopied]);
+
+  const handleClearJoints = useCallback(() => {
+    exitPlayback();
+    clearJointsRef.current?.();
+  }, [exitPlayback]);
+
+  const handleClearForceFields = useCallback(() => {
+    clearForceFieldsRef.current?.();
   }, []);
 
   const handleToggleGravity = useCallback(() => {
@@ -63,12 +281,35 @@ export function PhysicsPlayground() {
     : [0, 0, 0];
 
   // Max objects based on device
-  const maxObjects = device.isMobile ? 30 : device.isTablet ? 40 : 60;
+  const deviceClass = device.isMobile ? "mobile" : device.isTablet ? "tablet" : "desktop";
+  const maxObjects = (instanced ? INSTANCED_OBJECT_LIMITS : OBJECT_LIMITS)[deviceClass];
 
   return (
-    <div className="relative h-full w-full">
+    <div
+      className="relative h-full w-full"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDraggingFile(true);
+      }}
+      onDragLeave={(e) => {
+        if (e.currentTarget === e.target) setIsDraggingFile(false);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDraggingFile(false);
+        handleImportModels(Array.from(e.dataTransfer.files));
+      }}
+    >
       <Leva hidden={!isDev} collapsed />
 
+      {isDraggingFile && (
+        <div className="pointer-events-none absolute inset-0 z-40 flex items-center justify-center bg-primary/10 ring-2 ring-inset ring-primary">
+          <p className="rounded-lg bg-black/60 px-4 py-2 text-sm text-white backdrop-blur-md">
+            Drop GLB or GLTF files to add them to the scene
+          </p>
+        </div>
+      )}
+
       {/* UI Controls Overlay */}
       <PhysicsControls
         gravityEnabled={gravityEnabled}
@@ -77,16 +318,64 @@ export function PhysicsPlayground() {
         maxObjects={maxObjects}
         fps={fps}
         onSpawn={handleSpawn}
+        models={[...builtInModels, ...importedModels]}
+        onSpawnModel={handleSpawnModel}
+        onImportModels={handleImportModels}
+        spawnMaterial={spawnMaterial}
+        onSpawnMaterialChange={setSpawnMaterial}
         onReset={handleReset}
         onToggleGravity={handleToggleGravity}
         onToggleAntiGravity={handleToggleAntiGravity}
+        instanced={instanced}
+        onToggleInstanced={() => setInstanced((prev) => !prev)}
+        raining={raining}
+        onToggleRain={() => setRaining((prev) => !prev)}
+        soundEnabled={soundEnabled}
+        onToggleSound={() => setSoundEnabled((prev) => !prev)}
+        showCollisionLog={showCollisionLog}
+        onToggleCollisionLog={() => setShowCollisionLog((prev) => !prev)}
+        presets={presets.builtIn}
+        userPresets={presets.user}
         onLoadPreset={handleLoadPreset}
+        onSavePreset={handleSavePreset}
+        onDeletePreset={deleteUserPhysicsPreset}
+        onSaveScene={handleSaveScene}
+        onOpenScene={handleOpenScene}
+        onShareScene={handleShareScene}
+        linkCopied={linkCopied}
+        linkTool={linkTool}
+        onLinkToolChange={handleLinkToolChange}
+        onClearJoints={handleClearJoints}
+        forceTool={forceTool}
+        onForceToolChange={handleForceToolChange}
+        onClearForceFields={handleClearForceFields}
         isMobile={device.isMobile}
       />
 
+      <ReplayControls
+        mode={replayMode}
+        recording={recording}
+        recordingRef={recordingRef}
+        clockRef={playbackClockRef}
+        onRecord={handleRecord}
+        onStopRecording={handleStopRecording}
+        onPlay={handlePlay}
+        onExitPlayback={handleExitPlayback}
+      />
+
+      {selectedObject && <PhysicsInspector object={selectedObject} inspectorRef={inspectorRef} />}
+
+      {showCollisionLog && (
+        <CollisionLog
+          logRef={impactLogRef}
+          onClear={() => (impactLogRef.current = createImpactLog())}
+          onClose={() => setShowCollisionLog(false)}
+        />
+      )}
+
       {/* 3D Canvas */}
       <Canvas
-        className="!absolute inset-0"
+        className="!absolute inset-0 touch-none"
         gl={{
           antialias: !device.isMobile,
           alpha: true,
@@ -132,7 +421,23 @@ export function PhysicsPlayground() {
                 onObjectCountChange={setObjectCount}
                 spawnRef={spawnRef}
                 resetRef={resetRef}
-                loadPresetRef={loadPresetRef}
+                captureSceneRef={captureSceneRef}
+                loadSceneRef={loadSceneRef}
+                linkTool={linkTool}
+                clearJointsRef={clearJointsRef}
+                forceTool={forceTool}
+                clearForceFieldsRef={clearForceFieldsRef}
+                spawnMaterial={spawnMaterial}
+                instanced={instanced}
+                raining={raining}
+                soundEnabled={soundEnabled}
+                impactLogRef={impactLogRef}
+                onSelectionChange={setSelectedObject}
+                inspectorRef={inspectorRef}
+                recordingRef={recordingRef}
+                playbackClockRef={playbackClockRef}
+                startPlaybackRef={startPlaybackRef}
+                stopPlaybackRef={stopPlaybackRef}
               />
             </Physics>
 
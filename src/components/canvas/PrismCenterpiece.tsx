@@ -6,6 +6,7 @@ import { useEnvironment, useCursor } from "@react-three/drei";
 import { useTheme } from "next-themes";
 import * as THREE from "three";
 import type { DeviceCapabilities } from "@/hooks/useDeviceDetection";
+import { createPrismGeometry } from "./prismGeometry";
 
 interface PrismCenterpieceProps {
   scrollProgress?: number;
@@ -50,27 +51,7 @@ export function PrismCenterpiece({
   const envMap = useEnvironment({ preset: "night" });
 
   // Create triangular prism geometry (extruded triangle)
-  const geometry = useMemo(() => {
-    const shape = new THREE.Shape();
-    const size = 1;
-
-    // Equilateral triangle
-    shape.moveTo(0, size);
-    shape.lineTo(-size * 0.866, -size * 0.5);
-    shape.lineTo(size * 0.866, -size * 0.5);
-    shape.closePath();
-
-    const extrudeSettings = {
-      steps: 1,
-      depth: 1.5,
-      bevelEnabled: true,
-      bevelThickness: 0.05,
-      bevelSize: 0.05,
-      bevelSegments: 3,
-    };
-
-    return new THREE.ExtrudeGeometry(shape, extrudeSettings);
-  }, []);
+  const geometry = useMemo(() => createPrismGeometry(), []);
 
   // Dispose geometry on unmount
   useEffect(() => {
@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useRef, type RefObject } from "react";
+import { useFrame, useThree } from "@react-three/fiber";
+import {
+  beginGpuQuery,
+  collectGpuQueries,
+  createGpuTimer,
+  disposeGpuTimer,
+  endGpuQuery,
+  type GpuTimer,
+  type ProfilerStats,
+} from "./shaders/profiler";
+
+interface ShaderProfilerProps {
+  /** Receives rolling averages every frame */
+  statsRef: RefObject<ProfilerStats>;
+}
+
+// Rolling window for the averages (about one second at 60fps)
+const SAMPLE_COUNT = 60;
+
+function pushSample(samples: number[], value: number) {
+  samples.push(value);
+  if (samples.length > SAMPLE_COUNT) samples.shift();
+}
+
+function average(samples: number[]) {
+  return samples.reduce((a, b) => a + b, 0) / samples.length;
+}
+
+/**
+ * Live frame profiler for the fullscreen viewer
+ *
+ * Takes over rendering (useFrame priority 1) so the scene's draw calls can
+ * be wrapped in a GPU timer query; falls back to CPU frame times alone.
+ */
+export function ShaderProfiler({ statsRef }: ShaderProfilerProps) {
+  const gl = useThree((state) => state.gl);
+  const timerRef = useRef<GpuTimer | null>(null);
+  const gpuSamples = useRef<number[]>([]);
+  const cpuSamples = useRef<number[]>([]);
+  const lastFrameTime = useRef<number | null>(null);
+
+  useEffect(() => {
+    const timer = createGpuTimer(gl);
+    timerRef.current = timer;
+    return () => {
+      if (timer) disposeGpuTimer(timer);
+      timerRef.current = null;
+    };
+  }, [gl]);
+
+  useFrame((state) => {
+    const timer = timerRef.current;
+    const now = performance.now();
+
+    if (lastFrameTime.current !== null) {
+      pushSample(cpuSamples.current, now - lastFrameTime.current);
+    }
+    lastFrameTime.current = now;
+
+    if (timer) beginGpuQuery(timer);
+    state.gl.render(state.scene, state.camera);
+    if (timer) {
+      endGpuQuery(timer);
+      collectGpuQueries(timer).forEach((ms) => pushSample(gpuSamples.current, ms));
+    }
+
+    const stats = statsRef.current;
+    stats.gpuMs = gpuSamples.current.length > 0 ? average(gpuSamples.current) : null;
+    stats.cpuMs = cpuSamples.current.length > 0 ? average(cpuSamples.current) : 0;
+    stats.fps = stats.cpuMs > 0 ? 1000 / stats.cpuMs : 0;
+  }, 1);
+
+  return null;
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useRef, useEffect } from "react";
+import { resolveShader } from "./shaders/registry";
+import { applyUniformValues } from "./shaders/material";
+import {
+  createThumbnailSlot,
+  disposeThumbnailSlot,
+  setThumbnailFragment,
+  type ThumbnailSlot,
+} from "./shaders/thumbnails";
+import type { ShaderUniformValues } from "./shaders/types";
+
+interface ShaderThumbnailProps {
+  shaderId: string;
+  /** Slot set from useShaderThumbnails */
+  slots: Set<ThumbnailSlot>;
+  /** Wakes the thumbnail loop (from useShaderThumbnails) */
+  requestFrame: () => void;
+  speed: number;
+  baseColor: string;
+  uniformValues?: ShaderUniformValues;
+  /** Overrides the built-in fragment source (live editor) */
+  fragmentShader?: string;
+  className?: string;
+}
+
+/**
+ * Grid preview drawn by the shared thumbnail renderer
+ * Only animates while on screen; otherwise keeps its last frame.
+ */
+export function ShaderThumbnail({
+  shaderId,
+  slots,
+  requestFrame,
+  speed,
+  baseColor,
+  uniformValues,
+  fragmentShader,
+  className,
+}: ShaderThumbnailProps) {
+  const definition = resolveShader(shaderId);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const slotRef = useRef<ThumbnailSlot | null>(null);
+
+  // Create the slot and track visibility and size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const slot = createThumbnailSlot(definition, canvas, {
+      speed,
+      baseColor,
+      values: uniformValues,
+      mouse: definition.thumbnail.mouse,
+      fragment: fragmentShader,
+    });
+    slotRef.current = slot;
+    slots.add(slot);
+
+    const intersectionObserver = new IntersectionObserver(([entry]) => {
+      slot.visible = entry.isIntersecting;
+      if (slot.visible) requestFrame();
+    });
+    intersectionObserver.observe(canvas);
+
+    // Resizing clears the canvas, so redraw even when paused
+    const resizeObserver = new ResizeObserver(([entry]) => {
+      const dpr = window.devicePixelRatio;
+      canvas.width = Math.round(entry.contentRect.width * dpr);
+      canvas.height = Math.round(entry.contentRect.height * dpr);
+      slot.dirty = true;
+      requestFrame();
+    });
+    resizeObserver.observe(canvas);
+
+    return () => {
+      intersectionObserver.disconnect();
+      resizeObserver.disconnect();
+      slots.delete(slot);
+      disposeThumbnailSlot(slot);
+      slotRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [definition, slots, requestFrame]); // Later prop changes are applied by the effects below
+
+  useEffect(() => {
+    const slot = slotRef.current;
+    if (!slot) return;
+    slot.uniforms.uSpeed.value = speed;
+    slot.uniforms.uColor.value.set(baseColor);
+    applyUniformValues(definition, slot.uniforms, uniformValues);
+    slot.dirty = true;
+    requestFrame();
+  }, [definition, speed, baseColor, uniformValues, requestFrame]);
+
+  useEffect(() => {
+    const slot = slotRef.current;
+    if (!slot) return;
+    setThumbnailFragment(slot, fragmentShader ?? definition.fragment);
+    requestFrame();
+  }, [definition, fragmentShader, requestFrame]);
+
+  return <canvas ref={canvasRef} className={className} />;
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState, type RefObject } from "react";
+import { Eraser, X } from "lucide-react";
+import { LOG_SECONDS, type PhysicsImpactLog, type PhysicsImpactSecond } from "./impacts";
+import { panelButtonClassName, PANEL_POLL_INTERVAL_MS } from "./panels";
+import { physicsMaterials } from "./types";
+
+interface CollisionLogProps {
+  logRef: RefObject<PhysicsImpactLog>;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+interface CollisionLogView {
+  total: number;
+  /** Last LOG_SECONDS whole seconds, oldest first (null when quiet) */
+  seconds: (PhysicsImpactSecond | null)[];
+}
+
+// Rows listed below the chart
+const LISTED_SECONDS = 5;
+
+// The running second is still filling up, so the view ends at the last whole one
+function readLog(log: PhysicsImpactLog): CollisionLogView {
+  const current = Math.floor(performance.now() / 1000);
+  const bySecond = new Map(log.seconds.map((entry) => [entry.second, entry]));
+  const seconds = Array.from(
+    { length: LOG_SECONDS },
+    (_, i) => bySecond.get(current - LOG_SECONDS + i) ?? null
+  );
+  return { total: log.total, seconds };
+}
+
+/**
+ * Impacts per second over the last half minute, with the hardest hit in each
+ */
+export function CollisionLog({ logRef, onClear, onClose }: CollisionLogProps) {
+  const [view, setView] = useState<CollisionLogView>(() => ({
+    total: 0,
+    seconds: Array(LOG_SECONDS).fill(null),
+  }));
+
+  // Keep the chart moving as impacts arrive and old seconds scroll off
+  useEffect(() => {
+    const read = () => setView(readLog(logRef.current));
+    const interval = setInterval(read, PANEL_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [logRef]);
+
+  const peak = Math.max(1, ...view.seconds.map((entry) => entry?.count ?? 0));
+  const listed = view.seconds.slice(-LISTED_SECONDS).reverse();
+
+  return (
+    <div className="absolute right-6 top-20 z-50 w-72 space-y-3 rounded-xl bg-black/50 p-3 text-xs backdrop-blur-md">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-primary">
+          Collisions
+          <span className="ml-2 font-mono font-normal text-foreground-muted">
+            {view.total} total
+          </span>
+        </h3>
+        <div className="flex gap-1">
+          <button onClick={onClear} className={panelButtonClassName} title="Clear Log">
+            <Eraser className="h-4 w-4" />
+          </button>
+          <button onClick={onClose} className={panelButtonClassName} title="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Impacts per second */}
+      <div className="flex h-12 items-end gap-px" aria-label="Impacts per second">
+        {view.seconds.map((entry, i) => (
+          <div
+            key={i}
+            className="flex-1 rounded-t-sm bg-primary/60"
+            style={{ height: `${((entry?.count ?? 0) / peak) * 100}%` }}
+            title={entry ? `${entry.count} impacts` : "No impacts"}
+          />
+        ))}
+      </div>
+
+      <table className="w-full font-mono">
+        <thead className="text-left text-foreground-muted">
+          <tr>
+            <th className="font-normal">Second</th>
+            <th className="text-right font-normal">Count</th>
+            <th className="text-right font-normal">Largest</th>
+          </tr>
+        </thead>
+        <tbody>
+          {listed.map((entry, i) => (
+            <tr key={i}>
+              <td className="text-foreground-muted">-{i + 1}s</td>
+              <td className="text-right">{entry?.count ?? 0}</td>
+              <td className="text-right">
+                {entry ? (
+                  <>
+                    {entry.largest.impulse.toFixed(1)} N·s{" "}
+                    <span className="text-foreground-muted">
+                      {physicsMaterials[entry.largest.material].label}
+                    </span>
+                  </>
+                ) : (
+                  "–"
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
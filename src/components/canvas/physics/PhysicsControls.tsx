@@ -1,5 +1,7 @@
 "use client";
 
+import { useState } from "react";
+import Image from "next/image";
 import {
   Circle,
   Square,
@@ -7,10 +9,46 @@ import {
   RotateCcw,
   Magnet,
   ArrowUp,
+  ArrowDown,
+  Eraser,
   Dices,
   X,
+  Download,
+  Upload,
+  Link2,
+  Check,
+  Save,
+  Trash2,
+  Bookmark,
+  Link,
+  Unlink,
+  PackagePlus,
+  Box,
+  Layers,
+  CloudRain,
+  Volume2,
+  VolumeX,
+  Activity,
 } from "lucide-react";
-import type { PhysicsObjectType, PresetType } from "./types";
+import { PHYSICS_JOINT_AXES, PHYSICS_JOINT_TYPES } from "./joints";
+import { PHYSICS_MODEL_EXTENSIONS } from "./models";
+import {
+  createForceTool,
+  FORCE_RADIUS_RANGE,
+  FORCE_STRENGTH_RANGE,
+  PHYSICS_FORCE_TOOLS,
+} from "./forces";
+import {
+  physicsMaterials,
+  type PhysicsForceTool,
+  type PhysicsJointAxis,
+  type PhysicsJointType,
+  type PhysicsLinkTool,
+  type PhysicsMaterialName,
+  type PhysicsModel,
+  type PhysicsObjectType,
+  type PhysicsPreset,
+} from "./types";
 
 interface PhysicsControlsProps {
   gravityEnabled: boolean;
@@ -19,10 +57,44 @@ interface PhysicsControlsProps {
   maxObjects: number;
   fps: number;
   onSpawn: (type: PhysicsObjectType) => void;
+  /** Built-in and imported models */
+  models: PhysicsModel[];
+  onSpawnModel: (model: PhysicsModel) => void;
+  onImportModels: (files: File[]) => void;
+  /** Material for new spawns */
+  spawnMaterial: PhysicsMaterialName;
+  onSpawnMaterialChange: (material: PhysicsMaterialName) => void;
   onReset: () => void;
   onToggleGravity: () => void;
   onToggleAntiGravity: () => void;
-  onLoadPreset: (preset: PresetType) => void;
+  /** Primitives drawn as instanced meshes (raises the object limit) */
+  instanced: boolean;
+  onToggleInstanced: () => void;
+  raining: boolean;
+  onToggleRain: () => void;
+  soundEnabled: boolean;
+  onToggleSound: () => void;
+  showCollisionLog: boolean;
+  onToggleCollisionLog: () => void;
+  /** Built-in presets */
+  presets: PhysicsPreset[];
+  /** Presets saved in this browser */
+  userPresets: PhysicsPreset[];
+  onLoadPreset: (preset: PhysicsPreset) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (id: string) => void;
+  onSaveScene: () => void;
+  onOpenScene: (file: File) => void;
+  onShareScene: () => void;
+  linkCopied: boolean;
+  /** Active joint tool (null when picking drags) */
+  linkTool: PhysicsLinkTool | null;
+  onLinkToolChange: (tool: PhysicsLinkTool | null) => void;
+  onClearJoints: () => void;
+  /** Active force tool (null when clicks drag and spawn) */
+  forceTool: PhysicsForceTool | null;
+  onForceToolChange: (tool: PhysicsForceTool | null) => void;
+  onClearForceFields: () => void;
   isMobile: boolean;
 }
 
@@ -33,10 +105,37 @@ export function PhysicsControls({
   maxObjects,
   fps,
   onSpawn,
+  models,
+  onSpawnModel,
+  onImportModels,
+  spawnMaterial,
+  onSpawnMaterialChange,
   onReset,
   onToggleGravity,
   onToggleAntiGravity,
+  instanced,
+  onToggleInstanced,
+  raining,
+  onToggleRain,
+  soundEnabled,
+  onToggleSound,
+  showCollisionLog,
+  onToggleCollisionLog,
+  presets,
+  userPresets,
   onLoadPreset,
+  onSavePreset,
+  onDeletePreset,
+  onSaveScene,
+  onOpenScene,
+  onShareScene,
+  linkCopied,
+  linkTool,
+  onLinkToolChange,
+  onClearJoints,
+  forceTool,
+  onForceToolChange,
+  onClearForceFields,
   isMobile,
 }: PhysicsControlsProps) {
   return (
@@ -92,6 +191,55 @@ export function PhysicsControls({
             >
               <Cylinder className="h-5 w-5 text-foreground-muted group-hover:text-primary" />
             </button>
+            {models.map((model) => (
+              <button
+                key={model.id}
+                onClick={() => onSpawnModel(model)}
+                className="group flex h-10 w-10 items-center justify-center overflow-hidden rounded-lg bg-white/5 transition-all hover:bg-primary/20 hover:scale-105 active:scale-95"
+                title={`Spawn ${model.name}`}
+              >
+                {model.thumbnail ? (
+                  <Image
+                    src={model.thumbnail}
+                    alt={model.name}
+                    width={36}
+                    height={36}
+                    unoptimized
+                  />
+                ) : (
+                  <Box className="h-5 w-5 text-foreground-muted group-hover:text-primary" />
+                )}
+              </button>
+            ))}
+            <label
+              className="group flex h-10 w-10 cursor-pointer items-center justify-center rounded-lg bg-white/5 transition-all hover:bg-primary/20 hover:scale-105 active:scale-95"
+              title="Import Model (GLB/GLTF)"
+            >
+              <PackagePlus className="h-5 w-5 text-foreground-muted group-hover:text-primary" />
+              <input
+                type="file"
+                accept={PHYSICS_MODEL_EXTENSIONS.join(",")}
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  onImportModels(Array.from(e.target.files ?? []));
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <select
+              value={spawnMaterial}
+              onChange={(e) => onSpawnMaterialChange(e.target.value as PhysicsMaterialName)}
+              className="h-10 rounded-lg bg-white/5 px-2 text-xs text-foreground-muted"
+              title="Material for new objects"
+              aria-label="Spawn material"
+            >
+              {(Object.keys(physicsMaterials) as PhysicsMaterialName[]).map((name) => (
+                <option key={name} value={name} className="bg-black">
+                  {physicsMaterials[name].label}
+                </option>
+              ))}
+            </select>
           </div>
 
           {/* Gravity controls */}
@@ -106,7 +254,7 @@ export function PhysicsControls({
               title={gravityEnabled ? "Disable Gravity" : "Enable Gravity"}
             >
               {gravityEnabled ? (
-                <Magnet className="h-5 w-5" />
+                <ArrowDown className="h-5 w-5" />
               ) : (
                 <X className="h-5 w-5" />
               )}
@@ -124,34 +272,133 @@ export function PhysicsControls({
             </button>
           </div>
 
+          {/* Crowd controls */}
+          <div className="flex items-center gap-1 border-r border-white/10 pr-2">
+            <button
+              onClick={onToggleInstanced}
+              className={`group flex h-10 w-10 items-center justify-center rounded-lg transition-all hover:scale-105 active:scale-95 ${
+                instanced
+                  ? "bg-primary/30 text-primary"
+                  : "bg-white/5 text-foreground-muted hover:bg-primary/20 hover:text-primary"
+              }`}
+              title={instanced ? "Disable Instancing" : "Enable Instancing (more objects)"}
+            >
+              <Layers className="h-5 w-5" />
+            </button>
+            <button
+              onClick={onToggleRain}
+              className={`group flex h-10 w-10 items-center justify-center rounded-lg transition-all hover:scale-105 active:scale-95 ${
+                raining
+                  ? "bg-accent-cyan/30 text-accent-cyan"
+                  : "bg-white/5 text-foreground-muted hover:bg-accent-cyan/20 hover:text-accent-cyan"
+              }`}
+              title={raining ? "Stop Rain" : "Rain Objects"}
+            >
+              <CloudRain className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Impact feedback */}
+          <div className="flex items-center gap-1 border-r border-white/10 pr-2">
+            <button
+              onClick={onToggleSound}
+              className={`group flex h-10 w-10 items-center justify-center rounded-lg transition-all hover:scale-105 active:scale-95 ${
+                soundEnabled
+                  ? "bg-primary/30 text-primary"
+                  : "bg-white/5 text-foreground-muted hover:bg-primary/20 hover:text-primary"
+              }`}
+              title={soundEnabled ? "Mute Impacts" : "Unmute Impacts"}
+            >
+              {soundEnabled ? <Volume2 className="h-5 w-5" /> : <VolumeX className="h-5 w-5" />}
+            </button>
+            <button
+              onClick={onToggleCollisionLog}
+              className={`group flex h-10 w-10 items-center justify-center rounded-lg transition-all hover:scale-105 active:scale-95 ${
+                showCollisionLog
+                  ? "bg-primary/30 text-primary"
+                  : "bg-white/5 text-foreground-muted hover:bg-primary/20 hover:text-primary"
+              }`}
+              title={showCollisionLog ? "Hide Collision Log" : "Show Collision Log"}
+            >
+              <Activity className="h-5 w-5" />
+            </button>
+          </div>
+
           {/* Preset buttons */}
           {!isMobile && (
             <div className="flex items-center gap-1 border-r border-white/10 pr-2">
-              <button
-                onClick={() => onLoadPreset("bowling")}
-                className="group flex h-10 items-center gap-1 rounded-lg bg-white/5 px-3 text-xs font-medium text-foreground-muted transition-all hover:bg-primary/20 hover:text-primary hover:scale-105 active:scale-95"
-                title="Load Bowling Preset"
-              >
-                <Dices className="h-4 w-4" />
-                <span className="hidden sm:inline">Bowling</span>
-              </button>
-              <button
-                onClick={() => onLoadPreset("dominoes")}
-                className="group flex h-10 items-center gap-1 rounded-lg bg-white/5 px-3 text-xs font-medium text-foreground-muted transition-all hover:bg-primary/20 hover:text-primary hover:scale-105 active:scale-95"
-                title="Load Dominoes Preset"
-              >
-                <span className="hidden sm:inline">Dominoes</span>
-              </button>
-              <button
-                onClick={() => onLoadPreset("jenga")}
-                className="group flex h-10 items-center gap-1 rounded-lg bg-white/5 px-3 text-xs font-medium text-foreground-muted transition-all hover:bg-primary/20 hover:text-primary hover:scale-105 active:scale-95"
-                title="Load Jenga Preset"
-              >
-                <span className="hidden sm:inline">Jenga</span>
-              </button>
+              {presets.map((preset, index) => (
+                <button
+                  key={preset.id}
+                  onClick={() => onLoadPreset(preset)}
+                  className="group flex h-10 items-center gap-1 rounded-lg bg-white/5 px-3 text-xs font-medium text-foreground-muted transition-all hover:bg-primary/20 hover:text-primary hover:scale-105 active:scale-95"
+                  title={preset.description ?? `Load ${preset.name} Preset`}
+                >
+                  {index === 0 && <Dices className="h-4 w-4" />}
+                  <span className="hidden sm:inline">{preset.name}</span>
+                </button>
+              ))}
+              <UserPresets
+                presets={userPresets}
+                onLoad={onLoadPreset}
+                onSave={onSavePreset}
+                onDelete={onDeletePreset}
+              />
             </div>
           )}
 
+          {/* Joints */}
+          <div className="flex items-center gap-1 border-r border-white/10 pr-2">
+            <JointTools tool={linkTool} onChange={onLinkToolChange} onClear={onClearJoints} />
+          </div>
+
+          {/* Force fields */}
+          <div className="flex items-center gap-1 border-r border-white/10 pr-2">
+            <ForceTools
+              tool={forceTool}
+              onChange={onForceToolChange}
+              onClear={onClearForceFields}
+            />
+          </div>
+
+          {/* Scene save / open / share */}
+          <div className="flex items-center gap-1 border-r border-white/10 pr-2">
+            <button
+              onClick={onSaveScene}
+              className="group flex h-10 w-10 items-center justify-center rounded-lg bg-white/5 transition-all hover:bg-primary/20 hover:scale-105 active:scale-95"
+              title="Save Scene"
+            >
+              <Download className="h-5 w-5 text-foreground-muted group-hover:text-primary" />
+            </button>
+            <label
+              className="group flex h-10 w-10 cursor-pointer items-center justify-center rounded-lg bg-white/5 transition-all hover:bg-primary/20 hover:scale-105 active:scale-95"
+              title="Open Scene"
+            >
+              <Upload className="h-5 w-5 text-foreground-muted group-hover:text-primary" />
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onOpenScene(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <button
+              onClick={onShareScene}
+              className={`group flex h-10 w-10 items-center justify-center rounded-lg transition-all hover:scale-105 active:scale-95 ${
+                linkCopied
+                  ? "bg-primary/30 text-primary"
+                  : "bg-white/5 text-foreground-muted hover:bg-primary/20 hover:text-primary"
+              }`}
+              title={linkCopied ? "Link Copied" : "Copy Scene Link"}
+            >
+              {linkCopied ? <Check className="h-5 w-5" /> : <Link2 className="h-5 w-5" />}
+            </button>
+          </div>
+
           {/* Reset button */}
           <button
             onClick={onReset}
@@ -164,11 +411,249 @@ export function PhysicsControls({
 
         {/* Instructions */}
         <p className="text-center text-xs text-foreground-muted/70">
-          {isMobile
-            ? "Tap to spawn \u2022 Drag objects to throw"
-            : "Click & drag to throw objects \u2022 Double-click to spawn"}
+          {linkTool
+            ? linkTool.type === "revolute" || linkTool.type === "prismatic"
+              ? "Pick two objects turned the same way to link them \u2022 Pick the first again to cancel"
+              : "Pick two objects to link them \u2022 Pick the first again to cancel"
+            : forceTool
+              ? forceTool.type === "explosion"
+                ? "Click the ground to set off an explosion"
+                : "Click the ground to place a field \u2022 Click a field's core to remove it"
+              : isMobile
+                ? "Tap to spawn \u2022 Drag objects to throw, several fingers at once"
+                : "Click to inspect \u2022 Drag to throw objects \u2022 Hold Shift to lift \u2022 Double-click to spawn \u2022 Drop GLB files to import"}
         </p>
       </div>
     </div>
   );
 }
+
+interface UserPresetsProps {
+  presets: PhysicsPreset[];
+  onLoad: (preset: PhysicsPreset) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const presetButtonClassName =
+  "group flex h-10 w-10 items-center justify-center rounded-lg bg-white/5 text-foreground-muted transition-all hover:bg-primary/20 hover:text-primary hover:scale-105 active:scale-95 disabled:pointer-events-none disabled:opacity-40";
+
+// Saved scenes: pick one to load, or name the current scene to save it
+function UserPresets({ presets, onLoad, onSave, onDelete }: UserPresetsProps) {
+  const [selectedId, setSelectedId] = useState("");
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState("");
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name);
+    setName("");
+    setNaming(false);
+  };
+
+  if (naming) {
+    return (
+      <>
+        <input
+          type="text"
+          value={name}
+          autoFocus
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") save();
+            if (e.key === "Escape") setNaming(false);
+          }}
+          placeholder="Preset name"
+          className="h-10 w-32 rounded-lg bg-white/10 px-2 text-xs text-white placeholder:text-white/40"
+        />
+        <button
+          onClick={save}
+          disabled={!name.trim()}
+          className={presetButtonClassName}
+          title="Save Current Scene"
+        >
+          <Save className="h-4 w-4" />
+        </button>
+        <button onClick={() => setNaming(false)} className={presetButtonClassName} title="Cancel">
+          <X className="h-4 w-4" />
+        </button>
+      </>
+    );
+  }
+
+  const selected = presets.find((preset) => preset.id === selectedId);
+
+  return (
+    <>
+      {presets.length > 0 && (
+        <>
+          <select
+            value={selected ? selectedId : ""}
+            onChange={(e) => {
+              setSelectedId(e.target.value);
+              const preset = presets.find((p) => p.id === e.target.value);
+              if (preset) onLoad(preset);
+            }}
+            className="h-10 rounded-lg bg-white/5 px-2 text-xs text-foreground-muted"
+            aria-label="Saved presets"
+          >
+            <option value="" className="bg-black">
+              Saved…
+            </option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id} className="bg-black">
+                {preset.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => selected && onDelete(selected.id)}
+            disabled={!selected}
+            className={presetButtonClassName}
+            title="Delete Saved Preset"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </>
+      )}
+      <button
+        onClick={() => setNaming(true)}
+        className={presetButtonClassName}
+        title="Save Current Scene as Preset"
+      >
+        <Bookmark className="h-4 w-4" />
+      </button>
+    </>
+  );
+}
+
+interface JointToolsProps {
+  tool: PhysicsLinkTool | null;
+  onChange: (tool: PhysicsLinkTool | null) => void;
+  onClear: () => void;
+}
+
+const DEFAULT_LINK_TOOL: PhysicsLinkTool = { type: "spherical", axis: "y" };
+
+// Link tool toggle, joint options while it is on, and clearing every joint
+function JointTools({ tool, onChange, onClear }: JointToolsProps) {
+  const usesAxis = tool?.type === "revolute" || tool?.type === "prismatic";
+
+  return (
+    <>
+      <button
+        onClick={() => onChange(tool ? null : DEFAULT_LINK_TOOL)}
+        className={`group flex h-10 w-10 items-center justify-center rounded-lg transition-all hover:scale-105 active:scale-95 ${
+          tool
+            ? "bg-primary/30 text-primary"
+            : "bg-white/5 text-foreground-muted hover:bg-primary/20 hover:text-primary"
+        }`}
+        title={tool ? "Stop Linking" : "Link Objects"}
+      >
+        <Link className="h-5 w-5" />
+      </button>
+      {tool && (
+        <>
+          <select
+            value={tool.type}
+            onChange={(e) => onChange({ ...tool, type: e.target.value as PhysicsJointType })}
+            className="h-10 rounded-lg bg-white/5 px-2 text-xs text-foreground-muted"
+            aria-label="Joint type"
+          >
+            {PHYSICS_JOINT_TYPES.map(({ type, label }) => (
+              <option key={type} value={type} className="bg-black">
+                {label}
+              </option>
+            ))}
+          </select>
+          {usesAxis && (
+            <select
+              value={tool.axis}
+              onChange={(e) => onChange({ ...tool, axis: e.target.value as PhysicsJointAxis })}
+              className="h-10 rounded-lg bg-white/5 px-2 text-xs text-foreground-muted"
+              aria-label="Joint axis"
+            >
+              {PHYSICS_JOINT_AXES.map((axis) => (
+                <option key={axis} value={axis} className="bg-black">
+                  {axis.toUpperCase()} axis
+                </option>
+              ))}
+            </select>
+          )}
+        </>
+      )}
+      <button onClick={onClear} className={presetButtonClassName} title="Remove All Joints">
+        <Unlink className="h-4 w-4" />
+      </button>
+    </>
+  );
+}
+
+interface ForceToolsProps {
+  tool: PhysicsForceTool | null;
+  onChange: (tool: PhysicsForceTool | null) => void;
+  onClear: () => void;
+}
+
+// Force tool toggle, then its type, strength and radius while it is on
+function ForceTools({ tool, onChange, onClear }: ForceToolsProps) {
+  return (
+    <>
+      <button
+        onClick={() => onChange(tool ? null : createForceTool("attractor"))}
+        className={`group flex h-10 w-10 items-center justify-center rounded-lg transition-all hover:scale-105 active:scale-95 ${
+          tool
+            ? "bg-primary/30 text-primary"
+            : "bg-white/5 text-foreground-muted hover:bg-primary/20 hover:text-primary"
+        }`}
+        title={tool ? "Stop Placing Forces" : "Force Tools"}
+      >
+        <Magnet className="h-5 w-5" />
+      </button>
+      {tool && (
+        <>
+          <select
+            value={tool.type}
+            onChange={(e) =>
+              onChange(createForceTool(e.target.value as PhysicsForceTool["type"], tool.radius))
+            }
+            className="h-10 rounded-lg bg-white/5 px-2 text-xs text-foreground-muted"
+            aria-label="Force type"
+          >
+            {PHYSICS_FORCE_TOOLS.map(({ type, label }) => (
+              <option key={type} value={type} className="bg-black">
+                {label}
+              </option>
+            ))}
+          </select>
+          <label className="flex flex-col text-[10px] text-foreground-muted">
+            Strength {tool.strength}
+            <input
+              type="range"
+              min={FORCE_STRENGTH_RANGE.min}
+              max={FORCE_STRENGTH_RANGE.max}
+              value={tool.strength}
+              onChange={(e) => onChange({ ...tool, strength: parseFloat(e.target.value) })}
+              className="w-20 accent-primary"
+            />
+          </label>
+          <label className="flex flex-col text-[10px] text-foreground-muted">
+            Radius {tool.radius}
+            <input
+              type="range"
+              min={FORCE_RADIUS_RANGE.min}
+              max={FORCE_RADIUS_RANGE.max}
+              step={0.5}
+              value={tool.radius}
+              onChange={(e) => onChange({ ...tool, radius: parseFloat(e.target.value) })}
+              className="w-20 accent-primary"
+            />
+          </label>
+        </>
+      )}
+      <button onClick={onClear} className={presetButtonClassName} title="Remove All Force Fields">
+        <Eraser className="h-4 w-4" />
+      </button>
+    </>
+  );
+}
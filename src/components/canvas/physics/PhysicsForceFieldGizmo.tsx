@@ -0,0 +1,136 @@
+"use client";
+
+import { useMemo, useRef } from "react";
+import { useFrame, type ThreeEvent } from "@react-three/fiber";
+import * as THREE from "three";
+import { getForceToolColor } from "./forces";
+import type { PhysicsForceField } from "./types";
+
+interface PhysicsForceFieldGizmoProps {
+  field: PhysicsForceField;
+  /** Clicking the core removes the field (not clickable without it) */
+  onRemove?: (id: string) => void;
+}
+
+const EXPLOSION_SECONDS = 0.5;
+
+/**
+ * Field radius as a faint shell around an animated core: pulsing in for
+ * attractors, out for repulsors, a spinning ring for vortices and an arrow
+ * for wind
+ */
+export function PhysicsForceFieldGizmo({ field, onRemove }: PhysicsForceFieldGizmoProps) {
+  const coreRef = useRef<THREE.Group>(null);
+  const color = getForceToolColor(field.type);
+
+  // Turns +Y (the arrow's axis) to the wind direction
+  const windRotation = useMemo(
+    () =>
+      new THREE.Euler().setFromQuaternion(
+        new THREE.Quaternion().setFromUnitVectors(
+          new THREE.Vector3(0, 1, 0),
+          new THREE.Vector3(...field.direction)
+        )
+      ),
+    [field.direction]
+  );
+
+  useFrame(({ clock }) => {
+    const core = coreRef.current;
+    if (!core) return;
+    const t = clock.getElapsedTime();
+
+    if (field.type === "vortex") {
+      core.rotation.y = -t * 3;
+    } else if (field.type !== "wind") {
+      // Sawtooth toward the centre for attractors, away for repulsors
+      const phase = t % 1;
+      core.scale.setScalar(field.type === "attractor" ? 1.5 - phase : 0.5 + phase);
+    }
+  });
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    onRemove?.(field.id);
+  };
+
+  return (
+    <group position={field.position}>
+      <mesh raycast={() => null}>
+        <sphereGeometry args={[field.radius, 24, 16]} />
+        <meshBasicMaterial color={color} wireframe transparent opacity={0.08} depthWrite={false} />
+      </mesh>
+
+      <group ref={coreRef} rotation={field.type === "wind" ? windRotation : undefined}>
+        {field.type === "wind" ? (
+          <>
+            <mesh position={[0, -0.3, 0]}>
+              <cylinderGeometry args={[0.06, 0.06, 0.8, 8]} />
+              <meshBasicMaterial color={color} />
+            </mesh>
+            <mesh position={[0, 0.25, 0]}>
+              <coneGeometry args={[0.18, 0.4, 12]} />
+              <meshBasicMaterial color={color} />
+            </mesh>
+          </>
+        ) : field.type === "vortex" ? (
+          <mesh rotation={[Math.PI / 2, 0, 0]}>
+            <torusGeometry args={[0.4, 0.05, 8, 32, Math.PI * 1.5]} />
+            <meshBasicMaterial color={color} />
+          </mesh>
+        ) : (
+          <mesh>
+            <sphereGeometry args={[0.25, 16, 12]} />
+            <meshBasicMaterial color={color} wireframe />
+          </mesh>
+        )}
+      </group>
+
+      {/* Click target */}
+      <mesh onClick={onRemove ? handleClick : undefined}>
+        <sphereGeometry args={[0.45, 12, 8]} />
+        <meshBasicMaterial color={color} transparent opacity={0.25} depthWrite={false} />
+      </mesh>
+    </group>
+  );
+}
+
+interface PhysicsExplosionFlashProps {
+  position: [number, number, number];
+  radius: number;
+  /** Called once the flash has faded */
+  onDone: () => void;
+}
+
+/**
+ * Shell that grows to the blast radius and fades out
+ */
+export function PhysicsExplosionFlash({ position, radius, onDone }: PhysicsExplosionFlashProps) {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+  const elapsedRef = useRef(0);
+
+  useFrame((_, delta) => {
+    if (!meshRef.current || !materialRef.current || elapsedRef.current >= EXPLOSION_SECONDS) {
+      return;
+    }
+    elapsedRef.current += delta;
+    const progress = Math.min(elapsedRef.current / EXPLOSION_SECONDS, 1);
+    meshRef.current.scale.setScalar(Math.max(progress * radius, 0.01));
+    materialRef.current.opacity = 0.5 * (1 - progress);
+    if (progress >= 1) onDone();
+  });
+
+  return (
+    <mesh ref={meshRef} position={position} scale={0.01} raycast={() => null}>
+      <sphereGeometry args={[1, 24, 16]} />
+      <meshBasicMaterial
+        ref={materialRef}
+        color={getForceToolColor("explosion")}
+        transparent
+        opacity={0.5}
+        depthWrite={false}
+      />
+    </mesh>
+  );
+}
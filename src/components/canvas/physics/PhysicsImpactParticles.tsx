@@ -0,0 +1,127 @@
+"use client";
+
+import { useMemo, useRef, type RefObject } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { getImpactStrength, IMPACT_PARTICLES, type PhysicsImpact } from "./impacts";
+
+interface PhysicsImpactParticlesProps {
+  /** Impacts since the last frame; drained every frame */
+  impactsRef: RefObject<PhysicsImpact[]>;
+}
+
+// Pool size; the oldest particles are reused when it runs out
+const MAX_PARTICLES = 600;
+const MAX_BURST = 24;
+
+const PARTICLE_MOTION = {
+  sparks: { speed: 5, life: 0.35, gravity: 9.8 },
+  dust: { speed: 1.2, life: 0.8, gravity: 2 },
+};
+
+// Pre-allocated temporary
+const color = new THREE.Color();
+
+// Per-particle motion (positions and colours live in the geometry)
+function createParticleState() {
+  return {
+    baseColors: new Float32Array(MAX_PARTICLES * 3),
+    velocities: new Float32Array(MAX_PARTICLES * 3),
+    gravity: new Float32Array(MAX_PARTICLES),
+    life: new Float32Array(MAX_PARTICLES),
+    maxLife: new Float32Array(MAX_PARTICLES),
+    /** Next pool slot to fill */
+    next: 0,
+  };
+}
+
+/**
+ * Sparks and dust thrown from impact points. Particles fade to black under
+ * additive blending, so a spent particle simply stops showing.
+ */
+export function PhysicsImpactParticles({ impactsRef }: PhysicsImpactParticlesProps) {
+  const pointsRef = useRef<THREE.Points>(null);
+  const stateRef = useRef<ReturnType<typeof createParticleState> | null>(null);
+  const buffers = useMemo(
+    () => ({
+      positions: new Float32Array(MAX_PARTICLES * 3),
+      colors: new Float32Array(MAX_PARTICLES * 3),
+    }),
+    []
+  );
+
+  useFrame((_, delta) => {
+    const points = pointsRef.current;
+    if (!points) return;
+    const state = (stateRef.current ??= createParticleState());
+    const { baseColors, velocities, gravity, life, maxLife } = state;
+    const position = points.geometry.attributes.position as THREE.BufferAttribute;
+    const colorAttribute = points.geometry.attributes.color as THREE.BufferAttribute;
+    const positions = position.array as Float32Array;
+    const colors = colorAttribute.array as Float32Array;
+
+    for (const impact of impactsRef.current) {
+      const style = IMPACT_PARTICLES[impact.material];
+      const motion = PARTICLE_MOTION[style.kind];
+      const strength = getImpactStrength(impact.impulse);
+      const count = Math.max(2, Math.round(MAX_BURST * strength));
+      color.set(style.color);
+
+      for (let n = 0; n < count; n++) {
+        const i = state.next;
+        state.next = (i + 1) % MAX_PARTICLES;
+
+        // Random direction in the upper hemisphere
+        const theta = Math.random() * Math.PI * 2;
+        const y = Math.random();
+        const r = Math.sqrt(1 - y * y);
+        const speed = motion.speed * (0.4 + strength) * (0.5 + Math.random() * 0.5);
+        velocities.set(
+          [Math.cos(theta) * r * speed, y * speed, Math.sin(theta) * r * speed],
+          i * 3
+        );
+        positions.set(impact.point, i * 3);
+        baseColors.set([color.r, color.g, color.b], i * 3);
+        gravity[i] = motion.gravity;
+        maxLife[i] = life[i] = motion.life * (0.6 + Math.random() * 0.4);
+      }
+    }
+    impactsRef.current.length = 0;
+
+    const dt = Math.min(delta, 0.05);
+    let alive = false;
+    for (let i = 0; i < MAX_PARTICLES; i++) {
+      if (life[i] <= 0) continue;
+      life[i] = Math.max(0, life[i] - dt);
+      alive = true;
+
+      velocities[i * 3 + 1] -= gravity[i] * dt;
+      for (let axis = 0; axis < 3; axis++) {
+        positions[i * 3 + axis] += velocities[i * 3 + axis] * dt;
+        colors[i * 3 + axis] = baseColors[i * 3 + axis] * (life[i] / maxLife[i]);
+      }
+    }
+
+    if (alive) {
+      position.needsUpdate = true;
+      colorAttribute.needsUpdate = true;
+    }
+  });
+
+  return (
+    // Particles spread from many points; bounds would be stale every frame
+    <points ref={pointsRef} frustumCulled={false} raycast={() => null}>
+      <bufferGeometry>
+        <bufferAttribute attach="attributes-position" args={[buffers.positions, 3]} />
+        <bufferAttribute attach="attributes-color" args={[buffers.colors, 3]} />
+      </bufferGeometry>
+      <pointsMaterial
+        size={0.08}
+        vertexColors
+        transparent
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+      />
+    </points>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useState, type RefObject } from "react";
+import { Copy, Trash2, X } from "lucide-react";
+import {
+  physicsMaterials,
+  DEFAULT_PHYSICS_MATERIAL,
+  type PhysicsBodyState,
+  type PhysicsInspectorApi,
+  type PhysicsMaterialName,
+  type PhysicsObject,
+} from "./types";
+import { panelButtonClassName, PANEL_POLL_INTERVAL_MS } from "./panels";
+
+interface PhysicsInspectorProps {
+  object: PhysicsObject;
+  inspectorRef: RefObject<PhysicsInspectorApi | null>;
+}
+
+type Axes = [boolean, boolean, boolean];
+
+const AXES = ["X", "Y", "Z"] as const;
+const SCALE_RANGE = { min: 0.1, max: 2 };
+
+function formatVector(vector: [number, number, number]) {
+  return vector.map((v) => v.toFixed(2).padStart(6)).join(" ");
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-foreground-muted">{label}</span>
+      {children}
+    </div>
+  );
+}
+
+function AxisToggles({
+  value,
+  onChange,
+}: {
+  value: Axes | undefined;
+  onChange: (axes: Axes) => void;
+}) {
+  const axes: Axes = value ?? [false, false, false];
+  return (
+    <div className="flex gap-1">
+      {AXES.map((axis, i) => (
+        <button
+          key={axis}
+          onClick={() => onChange(axes.map((locked, j) => (i === j ? !locked : locked)) as Axes)}
+          className={`h-6 w-6 rounded font-mono text-[10px] transition-colors ${
+            axes[i]
+              ? "bg-primary/30 text-primary"
+              : "bg-white/5 text-foreground-muted hover:bg-white/10"
+          }`}
+          title={`${axes[i] ? "Unlock" : "Lock"} ${axis}`}
+        >
+          {axis}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Live state of the selected body, with its editable properties
+ */
+export function PhysicsInspector({ object, inspectorRef }: PhysicsInspectorProps) {
+  const [state, setState] = useState<PhysicsBodyState | null>(null);
+
+  // Re-read the body while it's selected; position and velocity change every step
+  useEffect(() => {
+    const read = () => setState(inspectorRef.current?.readBody(object.id) ?? null);
+    const interval = setInterval(read, PANEL_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [object.id, inspectorRef]);
+
+  const update = (changes: Parameters<PhysicsInspectorApi["updateObject"]>[1]) =>
+    inspectorRef.current?.updateObject(object.id, changes);
+
+  return (
+    <div className="absolute left-6 top-20 z-50 w-64 space-y-3 rounded-xl bg-black/50 p-3 text-xs backdrop-blur-md">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold capitalize text-primary">
+          {object.type}
+          {object.fixed && <span className="ml-2 font-normal text-foreground-muted">fixed</span>}
+        </h3>
+        <button
+          onClick={() => inspectorRef.current?.select(null)}
+          className={panelButtonClassName}
+          title="Close"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Live state */}
+      <div className="space-y-1 font-mono">
+        <Row label="Position">
+          <span className="whitespace-pre">{state ? formatVector(state.position) : "–"}</span>
+        </Row>
+        <Row label="Velocity">
+          <span className="whitespace-pre">
+            {state ? formatVector(state.linearVelocity) : "–"}
+          </span>
+        </Row>
+        <Row label="Spin">
+          <span className="whitespace-pre">
+            {state ? formatVector(state.angularVelocity) : "–"}
+          </span>
+        </Row>
+        <Row label="Mass">
+          <span>{state ? state.mass.toFixed(2) : "–"}</span>
+        </Row>
+        <Row label="State">
+          <span className={state?.sleeping ? "text-foreground-muted" : "text-green-400"}>
+            {state ? (state.sleeping ? "Sleeping" : "Awake") : "–"}
+          </span>
+        </Row>
+      </div>
+
+      <div className="h-px bg-white/10" />
+
+      {/* Editable properties */}
+      <div className="space-y-2">
+        <Row label="Colour">
+          <input
+            type="color"
+            value={object.color}
+            onChange={(e) => update({ color: e.target.value })}
+            className="h-6 w-10 cursor-pointer rounded bg-transparent"
+          />
+        </Row>
+        <Row label={`Scale ${object.scale.toFixed(2)}`}>
+          <input
+            type="range"
+            min={SCALE_RANGE.min}
+            max={SCALE_RANGE.max}
+            step={0.05}
+            value={object.scale}
+            onChange={(e) => update({ scale: parseFloat(e.target.value) })}
+            className="w-28 accent-primary"
+          />
+        </Row>
+        <Row label="Material">
+          <select
+            value={object.material ?? DEFAULT_PHYSICS_MATERIAL}
+            onChange={(e) => update({ material: e.target.value as PhysicsMaterialName })}
+            className="rounded-md bg-white/10 px-2 py-1 text-white"
+          >
+            {(Object.keys(physicsMaterials) as PhysicsMaterialName[]).map((name) => (
+              <option key={name} value={name} className="bg-black">
+                {physicsMaterials[name].label}
+              </option>
+            ))}
+          </select>
+        </Row>
+        <Row label="Lock move">
+          <AxisToggles
+            value={object.lockedTranslations}
+            onChange={(lockedTranslations) => update({ lockedTranslations })}
+          />
+        </Row>
+        <Row label="Lock spin">
+          <AxisToggles
+            value={object.lockedRotations}
+            onChange={(lockedRotations) => update({ lockedRotations })}
+          />
+        </Row>
+      </div>
+
+      <div className="flex justify-end gap-1">
+        <button
+          onClick={() => inspectorRef.current?.duplicateObject(object.id)}
+          className={panelButtonClassName}
+          title="Duplicate"
+        >
+          <Copy className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => inspectorRef.current?.deleteObject(object.id)}
+          className="flex h-8 w-8 items-center justify-center rounded-lg bg-red-500/20 text-red-400 transition-all hover:bg-red-500/30 hover:scale-105 active:scale-95"
+          title="Delete"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
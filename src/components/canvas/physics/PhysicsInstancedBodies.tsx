@@ -0,0 +1,213 @@
+"use client";
+
+import { useMemo, useRef, type RefObject } from "react";
+import { useFrame, type ThreeEvent } from "@react-three/fiber";
+import type { RapierRigidBody } from "@react-three/rapier";
+import { Outlines } from "@react-three/drei";
+import * as THREE from "three";
+import {
+  getVelocityColor,
+  physicsMaterials,
+  DEFAULT_PHYSICS_MATERIAL,
+  type PhysicsMaterialName,
+  type PhysicsObject,
+  type PhysicsObjectType,
+} from "./types";
+
+type PhysicsBodies = Map<string, RefObject<RapierRigidBody | null>>;
+
+interface PhysicsInstancedBodiesProps {
+  /** Primitive bodies; their colliders are rendered by the scene */
+  objects: PhysicsObject[];
+  bodiesRef: RefObject<PhysicsBodies>;
+  /** Most instances one mesh can draw */
+  capacity: number;
+  onDragStart: (id: string, rigidBody: RapierRigidBody, e: ThreeEvent<PointerEvent>) => void;
+  /** Dragged bodies keep their colour */
+  draggingIds: string[];
+  isMobile: boolean;
+}
+
+// Pre-allocated temporaries
+const matrix = new THREE.Matrix4();
+const position = new THREE.Vector3();
+const quaternion = new THREE.Quaternion();
+const scale = new THREE.Vector3();
+const color = new THREE.Color();
+const hidden = new THREE.Matrix4().makeScale(0, 0, 0);
+
+// Shapes matching the colliders for a scale; instances use size 1 and are scaled
+function PrimitiveGeometry({ type, size }: { type: PhysicsObjectType; size: number }) {
+  switch (type) {
+    case "sphere":
+      return <sphereGeometry args={[size, 24, 24]} />;
+    case "box":
+      return <boxGeometry args={[size * 2, size * 2, size * 2]} />;
+    case "cylinder":
+      return <cylinderGeometry args={[size, size, size * 2, 24]} />;
+    case "mesh":
+      return null;
+  }
+}
+
+interface PhysicsInstanceGroupProps extends Omit<PhysicsInstancedBodiesProps, "objects"> {
+  type: PhysicsObjectType;
+  material: PhysicsMaterialName;
+  objects: PhysicsObject[];
+}
+
+function PhysicsInstanceGroup({
+  type,
+  material,
+  objects,
+  bodiesRef,
+  capacity,
+  onDragStart,
+  draggingIds,
+  isMobile,
+}: PhysicsInstanceGroupProps) {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  // What each slot last drew, so sleeping bodies are written once
+  const slotsRef = useRef<{ obj: PhysicsObject | null; color: string | null }[]>([]);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const slots = slotsRef.current;
+    let moved = false;
+    let recoloured = false;
+
+    objects.forEach((obj, i) => {
+      const slot = (slots[i] ??= { obj: null, color: null });
+      const body = bodiesRef.current.get(obj.id)?.current;
+      // Spawned this frame; the body registers after mount
+      if (!body) {
+        mesh.setMatrixAt(i, hidden);
+        slot.obj = null;
+        moved = true;
+        return;
+      }
+
+      // New to the slot, or edited since it was drawn
+      const stale = slot.obj !== obj;
+      if (!stale && body.isSleeping()) return;
+
+      const t = body.translation();
+      const r = body.rotation();
+      matrix.compose(
+        position.set(t.x, t.y, t.z),
+        quaternion.set(r.x, r.y, r.z, r.w),
+        scale.setScalar(obj.scale)
+      );
+      mesh.setMatrixAt(i, matrix);
+      slot.obj = obj;
+      moved = true;
+
+      if (!stale && draggingIds.includes(obj.id)) return;
+      const v = body.linvel();
+      const next = getVelocityColor(Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z), obj.color);
+      if (stale || next !== slot.color) {
+        mesh.setColorAt(i, color.set(next));
+        slot.color = next;
+        recoloured = true;
+      }
+    });
+
+    mesh.count = objects.length;
+    if (moved) {
+      mesh.instanceMatrix.needsUpdate = true;
+      // Bounds are recomputed on demand for frustum culling and picking
+      mesh.boundingSphere = null;
+    }
+    if (recoloured && mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    const obj = e.instanceId === undefined ? undefined : objects[e.instanceId];
+    const body = obj && bodiesRef.current.get(obj.id)?.current;
+    if (!obj || !body) return;
+    e.stopPropagation();
+    onDragStart(obj.id, body, e);
+  };
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[undefined, undefined, capacity]}
+      castShadow={!isMobile}
+      receiveShadow={!isMobile}
+      onPointerDown={handlePointerDown}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <PrimitiveGeometry type={type} size={1} />
+      {/* White so the instance colours show as they are */}
+      <meshPhysicalMaterial
+        color="#ffffff"
+        {...physicsMaterials[material].visual}
+        side={THREE.DoubleSide}
+      />
+    </instancedMesh>
+  );
+}
+
+/**
+ * Primitive bodies drawn as one InstancedMesh per type and material, with
+ * matrices read straight from their Rapier bodies each frame
+ */
+export function PhysicsInstancedBodies({ objects, ...props }: PhysicsInstancedBodiesProps) {
+  const groups = useMemo(() => {
+    const byKey = new Map<
+      string,
+      { type: PhysicsObjectType; material: PhysicsMaterialName; objects: PhysicsObject[] }
+    >();
+    objects.forEach((obj) => {
+      const material = obj.material ?? DEFAULT_PHYSICS_MATERIAL;
+      const key = `${obj.type}:${material}`;
+      const group = byKey.get(key) ?? { type: obj.type, material, objects: [] };
+      group.objects.push(obj);
+      byKey.set(key, group);
+    });
+    return [...byKey.entries()];
+  }, [objects]);
+
+  return (
+    <>
+      {groups.map(([key, group]) => (
+        // The instance buffer is sized once, so a new capacity needs a new mesh
+        <PhysicsInstanceGroup key={`${key}:${props.capacity}`} {...props} {...group} />
+      ))}
+    </>
+  );
+}
+
+interface PhysicsInstanceMarkerProps {
+  obj: PhysicsObject;
+  bodiesRef: RefObject<PhysicsBodies>;
+  color: string;
+}
+
+/**
+ * Outline that follows one instanced body (instances can't be outlined alone)
+ */
+export function PhysicsInstanceMarker({ obj, bodiesRef, color }: PhysicsInstanceMarkerProps) {
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    const body = bodiesRef.current.get(obj.id)?.current;
+    if (!mesh || !body) return;
+    const t = body.translation();
+    const r = body.rotation();
+    mesh.position.set(t.x, t.y, t.z);
+    mesh.quaternion.set(r.x, r.y, r.z, r.w);
+  });
+
+  return (
+    <mesh ref={meshRef} raycast={() => null}>
+      <PrimitiveGeometry type={obj.type} size={obj.scale} />
+      <meshBasicMaterial visible={false} />
+      {/* Outlines copies the geometry on mount */}
+      <Outlines key={`${obj.type}-${obj.scale}`} thickness={0.04} color={color} />
+    </mesh>
+  );
+}
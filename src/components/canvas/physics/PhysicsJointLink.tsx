@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useMemo, useRef, type RefObject } from "react";
+import { useFrame } from "@react-three/fiber";
+import { useRapier, type RapierRigidBody } from "@react-three/rapier";
+import * as THREE from "three";
+import { createJointData, getAnchorWorldPosition } from "./joints";
+import type { PhysicsJoint } from "./types";
+
+interface PhysicsJointLinkProps {
+  joint: PhysicsJoint;
+  /** Live bodies by object id (registered before joints mount) */
+  bodiesRef: RefObject<Map<string, RefObject<RapierRigidBody | null>>>;
+}
+
+// Pre-allocated anchor positions
+const anchorA = new THREE.Vector3();
+const anchorB = new THREE.Vector3();
+
+/**
+ * Creates the Rapier joint between two bodies and draws it as a line from
+ * body A through both anchors to body B
+ */
+export function PhysicsJointLink({ joint, bodiesRef }: PhysicsJointLinkProps) {
+  const { world, rapier } = useRapier();
+  const lineRef = useRef<THREE.Line>(null);
+
+  const line = useMemo(() => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.BufferAttribute(new Float32Array(12), 3));
+    const material = new THREE.LineBasicMaterial({
+      color: "#22d3ee",
+      transparent: true,
+      opacity: 0.8,
+    });
+    const object = new THREE.Line(geometry, material);
+    object.frustumCulled = false;
+    return object;
+  }, []);
+
+  useEffect(
+    () => () => {
+      line.geometry.dispose();
+      (line.material as THREE.Material).dispose();
+    },
+    [line]
+  );
+
+  useEffect(() => {
+    const bodyA = bodiesRef.current.get(joint.bodyA)?.current;
+    const bodyB = bodiesRef.current.get(joint.bodyB)?.current;
+    if (!bodyA || !bodyB) return;
+
+    const created = world.createImpulseJoint(createJointData(rapier, joint), bodyA, bodyB, true);
+    return () => {
+      // Removing either body already removes its joints
+      if (world.getImpulseJoint(created.handle)) world.removeImpulseJoint(created, true);
+    };
+  }, [joint, world, rapier, bodiesRef]);
+
+  useFrame(() => {
+    const bodyA = bodiesRef.current.get(joint.bodyA)?.current;
+    const bodyB = bodiesRef.current.get(joint.bodyB)?.current;
+    if (!lineRef.current) return;
+    lineRef.current.visible = Boolean(bodyA && bodyB);
+    if (!bodyA || !bodyB) return;
+
+    getAnchorWorldPosition(bodyA, joint.anchorA, anchorA);
+    getAnchorWorldPosition(bodyB, joint.anchorB, anchorB);
+
+    const centerA = bodyA.translation();
+    const centerB = bodyB.translation();
+    const position = line.geometry.getAttribute("position") as THREE.BufferAttribute;
+    position.setXYZ(0, centerA.x, centerA.y, centerA.z);
+    position.setXYZ(1, anchorA.x, anchorA.y, anchorA.z);
+    position.setXYZ(2, anchorB.x, anchorB.y, anchorB.z);
+    position.setXYZ(3, centerB.x, centerB.y, centerB.z);
+    position.needsUpdate = true;
+  });
+
+  return <primitive ref={lineRef} object={line} />;
+}
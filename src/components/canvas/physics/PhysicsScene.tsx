@@ -1,19 +1,56 @@
 "use client";
 
-import { useRef, useState, useCallback, useEffect, useMemo } from "react";
-import { useThree, useFrame } from "@react-three/fiber";
-import { RigidBody, CuboidCollider, BallCollider, CylinderCollider } from "@react-three/rapier";
-import type { RapierRigidBody } from "@react-three/rapier";
+import { memo, useRef, useState, useCallback, useEffect, useMemo, type RefObject } from "react";
+import { useThree, useFrame, type ThreeEvent } from "@react-three/fiber";
+import {
+  RigidBody,
+  CuboidCollider,
+  BallCollider,
+  CylinderCollider,
+  ConvexHullCollider,
+  TrimeshCollider,
+  useAfterPhysicsStep,
+  useBeforePhysicsStep,
+} from "@react-three/rapier";
+import type { CollisionEnterPayload, RapierRigidBody } from "@react-three/rapier";
+import { Outlines } from "@react-three/drei";
 import * as THREE from "three";
+import { usePhysicsModel } from "@/hooks/usePhysicsModels";
 import {
   type PhysicsSceneProps,
   type PhysicsObject,
   type PhysicsObjectType,
-  type PresetType,
-  velocityColors,
-  materialPresets,
-  presetConfigs,
+  type PhysicsMaterialName,
+  type PhysicsJoint,
+  type PhysicsForceField,
+  type PhysicsObjectChanges,
+  type PhysicsBodyState,
+  type PhysicsSceneSnapshot,
+  type SerializedPhysicsScene,
+  getVelocityColor,
+  physicsMaterials,
+  DEFAULT_PHYSICS_MATERIAL,
 } from "./types";
+import { decodePhysicsSceneHash } from "./serialization";
+import {
+  applyRecordingFrame,
+  findRecordingFrame,
+  recordPhysicsFrame,
+  type PhysicsRecording,
+} from "./recording";
+import { createPhysicsJoint } from "./joints";
+import { createDrag, getThrowVelocity, moveDrag, type PhysicsDrag } from "./drag";
+import { PhysicsJointLink } from "./PhysicsJointLink";
+import { applyExplosion, applyForceField, createForceField } from "./forces";
+import { PhysicsExplosionFlash, PhysicsForceFieldGizmo } from "./PhysicsForceFieldGizmo";
+import { PhysicsInstancedBodies, PhysicsInstanceMarker } from "./PhysicsInstancedBodies";
+import { PhysicsImpactParticles } from "./PhysicsImpactParticles";
+import {
+  createImpactSoundPlayer,
+  readImpact,
+  recordImpact,
+  type PhysicsImpact,
+} from "./impacts";
 
 // Pre-allocated color for performance
 const tempColor = new THREE.Color();
@@ -24,20 +61,80 @@ function generateId(): string {
   return `obj-${Date.now()}-${idCounter++}`;
 }
 
-// Get color based on velocity
-function getVelocityColor(speed: number): string {
-  if (speed < 0.5) return velocityColors.stationary;
-  if (speed < 5) return velocityColors.slow;
-  if (speed < 15) return velocityColors.medium;
-  return velocityColors.fast;
+// Rain of objects: a few random primitives every interval, over most of the arena
+const RAIN_TYPES: PhysicsObjectType[] = ["sphere", "box", "cylinder"];
+const RAIN_INTERVAL = 0.1;
+const RAIN_BATCH = 4;
+const RAIN_HEIGHT = 14;
+const RAIN_SPREAD = 24;
+
+// Bodies that fall off the ground are removed once below this height
+const CULL_HEIGHT = -10;
+const CULL_INTERVAL = 0.5;
+
+const spawnColors = ["#a78bfa", "#c4b5fd", "#e9d5ff", "#f5d0fe", "#d946ef"];
+
+// New object with a random colour and size (above the centre unless placed)
+function createObject(
+  type: PhysicsObjectType,
+  material: PhysicsMaterialName,
+  position?: [number, number, number],
+  velocity?: [number, number, number],
+  model?: string
+): PhysicsObject {
+  return {
+    id: generateId(),
+    type,
+    position: position || [
+      (Math.random() - 0.5) * 4,
+      5 + Math.random() * 3,
+      (Math.random() - 0.5) * 4,
+    ],
+    scale:
+      type === "box" || type === "mesh" ? 0.3 + Math.random() * 0.2 : 0.3 + Math.random() * 0.3,
+    color: spawnColors[Math.floor(Math.random() * spawnColors.length)],
+    velocity,
+    material,
+    model,
+  };
+}
+
+let jointCounter = 0;
+function generateJointId(): string {
+  return `joint-${Date.now()}-${jointCounter++}`;
+}
+
+let fieldCounter = 0;
+function generateFieldId(): string {
+  return `field-${Date.now()}-${fieldCounter++}`;
+}
+
+// Object with its body's current pose and velocities
+function withBodyState(obj: PhysicsObject, body: RapierRigidBody): PhysicsObject {
+  const position = body.translation();
+  const rotation = body.rotation();
+  const linvel = body.linvel();
+  const angvel = body.angvel();
+  return {
+    ...obj,
+    position: [position.x, position.y, position.z],
+    rotation: [rotation.x, rotation.y, rotation.z, rotation.w],
+    velocity: [linvel.x, linvel.y, linvel.z],
+    angularVelocity: [angvel.x, angvel.y, angvel.z],
+  };
 }
 
 // Ground component
-function Ground() {
+function Ground({ onClick }: { onClick?: (e: ThreeEvent<MouseEvent>) => void }) {
   return (
     <RigidBody type="fixed" colliders={false} friction={0.8} restitution={0.2}>
       <CuboidCollider args={[20, 0.1, 20]} position={[0, -0.1, 0]} />
-      <mesh receiveShadow position={[0, -0.1, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+      <mesh
+        receiveShadow
+        position={[0, -0.1, 0]}
+        rotation={[-Math.PI / 2, 0, 0]}
+        onClick={onClick}
+      >
         <planeGeometry args={[40, 40]} />
         <meshStandardMaterial
           color="#1a1a2e"
@@ -80,17 +177,64 @@ function Walls() {
 // Individual physics object component
 interface PhysicsBodyProps {
   obj: PhysicsObject;
-  onDragStart: (id: string, rigidBody: RapierRigidBody) => void;
-  onDragEnd: (velocity: [number, number, number]) => void;
+  onDragStart: (id: string, rigidBody: RapierRigidBody, e: ThreeEvent<PointerEvent>) => void;
+  /** Makes the body readable by id (null on unmount) */
+  onRegister: (id: string, bodyRef: RefObject<RapierRigidBody | null> | null) => void;
+  /** Both bodies report a collision; the pair key tells the reports apart */
+  onImpact: (pair: string, impact: PhysicsImpact) => void;
   isDragging: boolean;
+  /** First body picked by the link tool */
+  isHighlighted: boolean;
+  isSelected: boolean;
+  /** Drawn by the instanced meshes; only the collider is rendered here */
+  instanced: boolean;
   isMobile: boolean;
 }
 
-function PhysicsBody({ obj, onDragStart, isDragging, isMobile }: Omit<PhysicsBodyProps, "onDragEnd">) {
+// Rapier takes enabled axes; objects store locked ones
+function unlocked(locked: [boolean, boolean, boolean] | undefined): [boolean, boolean, boolean] {
+  return locked ? [!locked[0], !locked[1], !locked[2]] : [true, true, true];
+}
+
+// Keeps a click on a body from reaching the ground behind it
+function stopClick(e: ThreeEvent<MouseEvent>) {
+  e.stopPropagation();
+}
+
+// Memoised so spawning into a crowded scene doesn't re-render every body
+const PhysicsBody = memo(function PhysicsBody({
+  obj,
+  onDragStart,
+  onRegister,
+  onImpact,
+  isDragging,
+  isHighlighted,
+  isSelected,
+  instanced,
+  isMobile,
+}: PhysicsBodyProps) {
   const rigidBodyRef = useRef<RapierRigidBody>(null);
   const meshRef = useRef<THREE.Mesh>(null);
   const materialRef = useRef<THREE.MeshPhysicalMaterial>(null);
   const [currentColor, setCurrentColor] = useState(obj.color);
+  const material = physicsMaterials[obj.material ?? DEFAULT_PHYSICS_MATERIAL];
+  const model = usePhysicsModel(obj.type === "mesh" ? obj.model : undefined);
+
+  // Imported models keep their own materials
+  const modelScene = useMemo(() => {
+    if (!model) return null;
+    const scene = model.scene.clone(true);
+    scene.traverse((child) => {
+      child.castShadow = !isMobile;
+      child.receiveShadow = !isMobile;
+    });
+    return scene;
+  }, [model, isMobile]);
+
+  useEffect(() => {
+    onRegister(obj.id, rigidBodyRef);
+    return () => onRegister(obj.id, null);
+  }, [obj.id, onRegister]);
 
   // Update color based on velocity
   useFrame(() => {
@@ -98,7 +242,7 @@ function PhysicsBody({ obj, onDragStart, isDragging, isMobile }: Omit<PhysicsBod
 
     const vel = rigidBodyRef.current.linvel();
     const speed = Math.sqrt(vel.x * vel.x + vel.y * vel.y + vel.z * vel.z);
-    const newColor = getVelocityColor(speed);
+    const newColor = getVelocityColor(speed, obj.color);
 
     if (newColor !== currentColor) {
       setCurrentColor(newColor);
@@ -108,12 +252,20 @@ function PhysicsBody({ obj, onDragStart, isDragging, isMobile }: Omit<PhysicsBod
     }
   });
 
+  const handleCollisionEnter = useCallback(
+    (payload: CollisionEnterPayload) => {
+      const reading = readImpact(payload, obj.material ?? DEFAULT_PHYSICS_MATERIAL);
+      if (reading) onImpact(reading.pair, reading.impact);
+    },
+    [obj.material, onImpact]
+  );
+
   // Handle pointer down to start drag
   const handlePointerDown = useCallback(
-    (e: { stopPropagation: () => void }) => {
+    (e: ThreeEvent<PointerEvent>) => {
       e.stopPropagation();
       if (rigidBodyRef.current) {
-        onDragStart(obj.id, rigidBodyRef.current);
+        onDragStart(obj.id, rigidBodyRef.current, e);
       }
     },
     [obj.id, onDragStart]
@@ -127,69 +279,204 @@ function PhysicsBody({ obj, onDragStart, isDragging, isMobile }: Omit<PhysicsBod
         return <boxGeometry args={[obj.scale * 2, obj.scale * 2, obj.scale * 2]} />;
       case "cylinder":
         return <cylinderGeometry args={[obj.scale, obj.scale, obj.scale * 2, 32]} />;
+      case "mesh":
+        return null;
     }
   }, [obj.type, obj.scale]);
 
   const collider = useMemo(() => {
     switch (obj.type) {
       case "sphere":
-        return <BallCollider args={[obj.scale]} />;
+        return <BallCollider args={[obj.scale]} density={material.density} />;
       case "box":
-        return <CuboidCollider args={[obj.scale, obj.scale, obj.scale]} />;
+        return (
+          <CuboidCollider args={[obj.scale, obj.scale, obj.scale]} density={material.density} />
+        );
       case "cylinder":
-        return <CylinderCollider args={[obj.scale, obj.scale]} />;
+        return <CylinderCollider args={[obj.scale, obj.scale]} density={material.density} />;
+      case "mesh": {
+        if (!model) return null;
+        const vertices = model.vertices.map((v) => v * obj.scale);
+        // Hulls are fast and solid; static scenery can afford the exact shape
+        return obj.fixed ? (
+          <TrimeshCollider args={[vertices, model.indices]} density={material.density} />
+        ) : (
+          <ConvexHullCollider args={[vertices]} density={material.density} />
+        );
+      }
     }
-  }, [obj.type, obj.scale]);
+  }, [obj.type, obj.scale, obj.fixed, model, material.density]);
+
+  // Mesh bodies wait for their model so they never simulate without a collider
+  if (obj.type === "mesh" && !modelScene) return null;
 
   return (
     <RigidBody
       ref={rigidBodyRef}
+      type={obj.fixed ? "fixed" : "dynamic"}
       position={obj.position}
+      quaternion={obj.rotation}
       linearVelocity={obj.velocity || [0, 0, 0]}
+      angularVelocity={obj.angularVelocity || [0, 0, 0]}
       colliders={false}
-      restitution={0.5}
-      friction={0.5}
+      restitution={material.restitution}
+      friction={material.friction}
       linearDamping={0.3}
       angularDamping={0.3}
+      enabledTranslations={unlocked(obj.lockedTranslations)}
+      enabledRotations={unlocked(obj.lockedRotations)}
+      onCollisionEnter={handleCollisionEnter}
     >
       {collider}
-      <mesh
-        ref={meshRef}
-        castShadow={!isMobile}
-        receiveShadow={!isMobile}
-        onPointerDown={handlePointerDown}
-      >
-        {geometry}
-        <meshPhysicalMaterial
-          ref={materialRef}
-          color={currentColor}
-          emissive={currentColor}
-          emissiveIntensity={0.1}
-          {...materialPresets.glass}
-          side={THREE.DoubleSide}
-        />
-      </mesh>
+      {modelScene ? (
+        <>
+          <primitive
+            object={modelScene}
+            scale={obj.scale}
+            onPointerDown={handlePointerDown}
+            onClick={stopClick}
+          />
+          {/* Normalised models fit a box of side 2 */}
+          {isSelected && (
+            <mesh scale={obj.scale} raycast={() => null}>
+              <boxGeometry args={[2, 2, 2]} />
+              <meshBasicMaterial color="#ffffff" wireframe />
+            </mesh>
+          )}
+        </>
+      ) : instanced ? null : (
+        <mesh
+          ref={meshRef}
+          castShadow={!isMobile}
+          receiveShadow={!isMobile}
+          onPointerDown={handlePointerDown}
+          onClick={stopClick}
+        >
+          {geometry}
+          {isSelected && (
+            <Outlines key={`${obj.type}-${obj.scale}`} thickness={0.04} color="#ffffff" />
+          )}
+          <meshPhysicalMaterial
+            ref={materialRef}
+            color={currentColor}
+            emissive={currentColor}
+            emissiveIntensity={isHighlighted ? 0.8 : 0.1}
+            {...material.visual}
+            side={THREE.DoubleSide}
+          />
+        </mesh>
+      )}
     </RigidBody>
   );
-}
+});
 
 // Main physics scene
 export function PhysicsScene({
   device,
   maxObjects,
   onObjectCountChange,
+  onSelectionChange,
+  inspectorRef,
   spawnRef,
   resetRef,
-  loadPresetRef,
+  captureSceneRef,
+  loadSceneRef,
+  linkTool,
+  clearJointsRef,
+  forceTool,
+  clearForceFieldsRef,
+  spawnMaterial,
+  instanced,
+  raining,
+  soundEnabled,
+  impactLogRef,
+  recordingRef,
+  playbackClockRef,
+  startPlaybackRef,
+  stopPlaybackRef,
 }: PhysicsSceneProps) {
   const { camera, gl, size } = useThree();
   const [objects, setObjects] = useState<PhysicsObject[]>([]);
 
-  // Dragging state
-  const [draggingId, setDraggingId] = useState<string | null>(null);
-  const draggedBodyRef = useRef<RapierRigidBody | null>(null);
-  const dragStartRef = useRef<{ x: number; y: number; time: number } | null>(null);
-  const dragCurrentRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
+  // A lower limit (instancing turned off) drops the oldest objects
+  const [objectLimit, setObjectLimit] = useState(maxObjects);
+  if (objectLimit !== maxObjects) {
+    setObjectLimit(maxObjects);
+    if (objects.length > maxObjects) setObjects(objects.slice(-maxObjects));
+  }
+
+  // Recording being replayed (its bodies replace the live ones meanwhile)
+  const [playback, setPlayback] = useState<PhysicsRecording | null>(null);
+  const renderedObjects = playback ? playback.objects : objects;
+
+  // Primitives share instanced meshes when instancing is on
+  const instancedObjects = useMemo(
+    () => renderedObjects.filter((obj) => obj.type !== "mesh"),
+    [renderedObjects]
+  );
+
+  const [joints, setJoints] = useState<PhysicsJoint[]>([]);
+  // Joints whose bodies are both in the scene
+  const renderedJoints = useMemo(() => {
+    const ids = new Set(renderedObjects.map((obj) => obj.id));
+    return joints.filter((joint) => ids.has(joint.bodyA) && ids.has(joint.bodyB));
+  }, [joints, renderedObjects]);
+
+  // First body picked by the link tool
+  const [linkSelection, setLinkSelection] = useState<string | null>(null);
+  const pendingLinkId = linkTool ? linkSelection : null;
+
+  // Body shown in the inspector
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selectedObject = useMemo(
+    () => objects.find((obj) => obj.id === selectedId) ?? null,
+    [objects, selectedId]
+  );
+
+  useEffect(() => {
+    onSelectionChange(selectedObject);
+  }, [selectedObject, onSelectionChange]);
+
+  const [forceFields, setForceFields] = useState<PhysicsForceField[]>([]);
+  const [explosions, setExplosions] = useState<
+    { id: string; position: [number, number, number]; radius: number }[]
+  >([]);
+
+  // Live Rapier bodies by object id
+  const bodiesRef = useRef(new Map<string, RefObject<RapierRigidBody | null>>());
+
+  const registerBody = useCallback(
+    (id: string, bodyRef: RefObject<RapierRigidBody | null> | null) => {
+      if (bodyRef) bodiesRef.current.set(id, bodyRef);
+      else bodiesRef.current.delete(id);
+    },
+    []
+  );
+
+  // Impact feedback: sound, particles (queued for the next frame) and the log
+  const impactSound = useMemo(() => createImpactSoundPlayer(), []);
+  const impactsRef = useRef<PhysicsImpact[]>([]);
+  // Pairs already reported this frame
+  const impactPairsRef = useRef(new Set<string>());
+
+  useEffect(() => () => impactSound.dispose(), [impactSound]);
+
+  const handleImpact = useCallback(
+    (pair: string, impact: PhysicsImpact) => {
+      const pairs = impactPairsRef.current;
+      if (pairs.has(pair)) return;
+      pairs.add(pair);
+
+      impactsRef.current.push(impact);
+      if (soundEnabled) impactSound.play(impact);
+      recordImpact(impactLogRef.current, impact, performance.now());
+    },
+    [soundEnabled, impactSound, impactLogRef]
+  );
+
+  // Dragged bodies by pointer id (one per finger on touch screens)
+  const dragsRef = useRef(new Map<number, PhysicsDrag>());
+  const [draggingIds, setDraggingIds] = useState<string[]>([]);
 
   // Raycaster for click detection
   const raycaster = useMemo(() => new THREE.Raycaster(), []);
@@ -205,208 +492,428 @@ export function PhysicsScene({
     (
       type: PhysicsObjectType,
       position?: [number, number, number],
-      velocity?: [number, number, number]
+      velocity?: [number, number, number],
+      model?: string
     ) => {
-      if (objects.length >= maxObjects) {
-        // Remove oldest object
-        setObjects((prev) => prev.slice(1));
-      }
-
-      const colors = ["#a78bfa", "#c4b5fd", "#e9d5ff", "#f5d0fe", "#d946ef"];
-      const newObj: PhysicsObject = {
-        id: generateId(),
-        type,
-        position: position || [
-          (Math.random() - 0.5) * 4,
-          5 + Math.random() * 3,
-          (Math.random() - 0.5) * 4,
-        ],
-        scale: type === "box" ? 0.3 + Math.random() * 0.2 : 0.3 + Math.random() * 0.3,
-        color: colors[Math.floor(Math.random() * colors.length)],
-        velocity,
-      };
-
-      setObjects((prev) => [...prev, newObj]);
+      const newObj = createObject(type, spawnMaterial, position, velocity, model);
+      // Past the limit the oldest objects make room
+      setObjects((prev) => [...prev, newObj].slice(-maxObjects));
     },
-    [objects.length, maxObjects]
+    [maxObjects, spawnMaterial]
   );
 
   // Reset scene
   const resetScene = useCallback(() => {
     setObjects([]);
-    setDraggingId(null);
-    draggedBodyRef.current = null;
+    setJoints([]);
+    setLinkSelection(null);
+    setForceFields([]);
+    dragsRef.current.clear();
+    setDraggingIds([]);
   }, []);
 
-  // Load presets
-  const loadPreset = useCallback(
-    (preset: PresetType) => {
+  // Read every body's current state back from Rapier
+  const captureScene = useCallback((): PhysicsSceneSnapshot => {
+    const captured = objects.map((obj) => {
+      const body = bodiesRef.current.get(obj.id)?.current;
+      return body ? withBodyState(obj, body) : obj;
+    });
+    const ids = new Set(objects.map((obj) => obj.id));
+    return {
+      objects: captured,
+      joints: joints.filter((joint) => ids.has(joint.bodyA) && ids.has(joint.bodyB)),
+    };
+  }, [objects, joints]);
+
+  // Replace the scene with saved bodies and the joints between them
+  const loadScene = useCallback(
+    (saved: SerializedPhysicsScene) => {
       resetScene();
+      const ids = saved.objects.map(() => generateId());
+      // Oldest bodies beyond the limit are dropped, like when spawning
+      const first = Math.max(0, saved.objects.length - maxObjects);
+
+      setObjects(saved.objects.slice(first).map((obj, i) => ({ ...obj, id: ids[first + i] })));
+      setJoints(
+        saved.joints
+          .filter((joint) => joint.bodyA >= first && joint.bodyB >= first)
+          .map((joint) => ({
+            ...joint,
+            id: generateJointId(),
+            bodyA: ids[joint.bodyA],
+            bodyB: ids[joint.bodyB],
+          }))
+      );
+    },
+    [resetScene, maxObjects]
+  );
 
-      if (preset === "clear") return;
-
-      const newObjects: PhysicsObject[] = [];
-
-      if (preset === "bowling") {
-        // Add pins
-        presetConfigs.bowling.pins.forEach((pin) => {
-          newObjects.push({
-            id: generateId(),
-            type: "cylinder",
-            position: pin.position,
-            scale: 0.2,
-            color: "#f5d0fe",
-          });
-        });
-
-        // Add ball
-        newObjects.push({
-          id: generateId(),
-          type: "sphere",
-          position: presetConfigs.bowling.ball.position,
-          scale: 0.4,
-          color: "#a855f7",
-        });
-      } else if (preset === "dominoes") {
-        const { count, spacing, startZ, curve } = presetConfigs.dominoes;
-        for (let i = 0; i < count; i++) {
-          const t = i / (count - 1);
-          const x = curve ? Math.sin(t * Math.PI * 0.5) * 4 : 0;
-          const z = startZ + i * spacing;
-
-          newObjects.push({
-            id: generateId(),
-            type: "box",
-            position: [x, 0.4, z],
-            scale: 0.15,
-            color: i % 2 === 0 ? "#a78bfa" : "#c4b5fd",
-          });
-        }
+  const clearJoints = useCallback(() => {
+    setJoints([]);
+    setLinkSelection(null);
+  }, []);
 
-        // Add a ball to knock them down
-        newObjects.push({
-          id: generateId(),
-          type: "sphere",
-          position: [0, 0.5, startZ - 2],
-          scale: 0.3,
-          color: "#d946ef",
-        });
-      } else if (preset === "jenga") {
-        const { layers, blocksPerLayer, blockSize, startY } = presetConfigs.jenga;
-        for (let layer = 0; layer < layers; layer++) {
-          const isOdd = layer % 2 === 1;
-          for (let block = 0; block < blocksPerLayer; block++) {
-            const x = isOdd ? 0 : (block - 1) * blockSize.depth * 1.1;
-            const z = isOdd ? (block - 1) * blockSize.depth * 1.1 : 0;
-            const y = startY + layer * blockSize.height * 2;
-
-            newObjects.push({
-              id: generateId(),
-              type: "box",
-              position: [x, y, z],
-              scale: 0.15,
-              color: layer % 3 === 0 ? "#a78bfa" : layer % 3 === 1 ? "#c4b5fd" : "#e9d5ff",
-            });
-          }
-        }
-      }
+  const clearForceFields = useCallback(() => setForceFields([]), []);
+
+  const updateObject = useCallback((id: string, changes: PhysicsObjectChanges) => {
+    // Changing locks reapplies the velocity props, so carry the live ones over
+    const body = bodiesRef.current.get(id)?.current;
+    const relock = "lockedTranslations" in changes || "lockedRotations" in changes;
+    setObjects((prev) =>
+      prev.map((obj) => {
+        if (obj.id !== id) return obj;
+        const current = relock && body ? withBodyState(obj, body) : obj;
+        return { ...current, position: obj.position, rotation: obj.rotation, ...changes };
+      })
+    );
+  }, []);
+
+  const deleteObject = useCallback((id: string) => {
+    setObjects((prev) => prev.filter((obj) => obj.id !== id));
+    setJoints((prev) => prev.filter((joint) => joint.bodyA !== id && joint.bodyB !== id));
+  }, []);
 
-      setObjects(newObjects);
+  // Copy resting just above the original, selected in its place
+  const duplicateObject = useCallback(
+    (id: string) => {
+      const original = objects.find((obj) => obj.id === id);
+      const body = bodiesRef.current.get(id)?.current;
+      if (!original || !body) return;
+
+      const live = withBodyState(original, body);
+      const copy: PhysicsObject = {
+        ...live,
+        id: generateId(),
+        position: [live.position[0], live.position[1] + original.scale * 2 + 0.1, live.position[2]],
+        velocity: undefined,
+        angularVelocity: undefined,
+      };
+      setObjects((prev) => [...(prev.length >= maxObjects ? prev.slice(1) : prev), copy]);
+      setSelectedId(copy.id);
     },
-    [resetScene]
+    [objects, maxObjects]
   );
 
-  // Expose functions via refs
-  useEffect(() => {
-    if (spawnRef.current !== null) {
-      (spawnRef as { current: (type: PhysicsObjectType) => void }).current = spawnObject;
-    }
-    if (resetRef.current !== null) {
-      (resetRef as { current: () => void }).current = resetScene;
-    }
-    if (loadPresetRef.current !== null) {
-      (loadPresetRef as { current: (preset: PresetType) => void }).current = loadPreset;
-    }
-  }, [spawnObject, resetScene, loadPreset, spawnRef, resetRef, loadPresetRef]);
+  const readBody = useCallback((id: string): PhysicsBodyState | null => {
+    const body = bodiesRef.current.get(id)?.current;
+    if (!body) return null;
+    const position = body.translation();
+    const linvel = body.linvel();
+    const angvel = body.angvel();
+    return {
+      position: [position.x, position.y, position.z],
+      linearVelocity: [linvel.x, linvel.y, linvel.z],
+      angularVelocity: [angvel.x, angvel.y, angvel.z],
+      mass: body.mass(),
+      sleeping: body.isSleeping(),
+    };
+  }, []);
 
-  // Handle drag start
-  const handleDragStart = useCallback((id: string, rigidBody: RapierRigidBody) => {
-    setDraggingId(id);
-    draggedBodyRef.current = rigidBody;
+  // Clicking empty ground clears the selection (but not the end of a drag)
+  const handleGroundSelect = useCallback((e: ThreeEvent<MouseEvent>) => {
+    if (e.delta <= 2) setSelectedId(null);
+  }, []);
 
-    // Make kinematic while dragging
-    rigidBody.setBodyType(2, true); // 2 = KinematicPositionBased
+  const removeForceField = useCallback((id: string) => {
+    setForceFields((prev) => prev.filter((field) => field.id !== id));
   }, []);
 
-  // Handle drag end - calculate and apply velocity
-  const handleDragEnd = useCallback((velocity: [number, number, number]) => {
-    if (draggedBodyRef.current) {
-      // Return to dynamic
-      draggedBodyRef.current.setBodyType(0, true); // 0 = Dynamic
-
-      // Apply impulse
-      const force = 3;
-      draggedBodyRef.current.applyImpulse(
-        { x: velocity[0] * force, y: velocity[1] * force, z: velocity[2] * force },
-        true
+  // Place a field, or set off an explosion, where the ground was clicked
+  const handleGroundClick = useCallback(
+    (e: ThreeEvent<MouseEvent>) => {
+      if (!forceTool || playback) return;
+      e.stopPropagation();
+
+      if (forceTool.type === "explosion") {
+        const bodies = [...bodiesRef.current.values()].flatMap((ref) =>
+          ref.current ? [ref.current] : []
+        );
+        applyExplosion(e.point, forceTool.strength, forceTool.radius, bodies);
+        setExplosions((prev) => [
+          ...prev,
+          { id: generateFieldId(), position: e.point.toArray(), radius: forceTool.radius },
+        ]);
+        return;
+      }
+
+      const viewDirection = camera.getWorldDirection(new THREE.Vector3());
+      const field = createForceField(
+        generateFieldId(),
+        forceTool.type,
+        e.point,
+        forceTool,
+        viewDirection
       );
+      setForceFields((prev) => [...prev, field]);
+    },
+    [forceTool, playback, camera]
+  );
+
+  // Push bodies inside force fields (replayed bodies follow the recording)
+  useBeforePhysicsStep((world) => {
+    if (playback || forceFields.length === 0) return;
+    for (const bodyRef of bodiesRef.current.values()) {
+      const body = bodyRef.current;
+      if (!body) continue;
+      forceFields.forEach((field) => applyForceField(field, body, world.timestep));
     }
+  });
 
-    setDraggingId(null);
-    draggedBodyRef.current = null;
-    dragStartRef.current = null;
-  }, []);
+  // Record every step while a recording is running
+  useAfterPhysicsStep((world) => {
+    const recording = recordingRef.current;
+    if (recording) recordPhysicsFrame(recording, objects, bodiesRef.current, world.timestep);
+  });
 
-  // Mouse/touch handlers
-  const handlePointerMove = useCallback(
-    (e: PointerEvent) => {
-      if (!draggingId || !draggedBodyRef.current) return;
+  // Drive the bodies from the recording
+  useFrame((_, delta) => {
+    if (!playback) return;
 
-      const mouse = new THREE.Vector2(
-        (e.clientX / size.width) * 2 - 1,
-        -(e.clientY / size.height) * 2 + 1
-      );
+    const clock = playbackClockRef.current;
+    if (!clock.paused) {
+      clock.time = Math.min(clock.time + delta * clock.speed, playback.duration);
+      if (clock.time >= playback.duration) clock.paused = true;
+    }
+    applyRecordingFrame(playback, clock.time, bodiesRef.current);
+  });
 
-      raycaster.setFromCamera(mouse, camera);
-      const intersectPoint = new THREE.Vector3();
+  // Rain drops and the sweep for bodies that left the arena run on timers;
+  // impact pairs are reported once per frame
+  const rainTimerRef = useRef(0);
+  const cullTimerRef = useRef(0);
+
+  useFrame((_, delta) => {
+    impactPairsRef.current.clear();
+    if (playback) return;
+
+    rainTimerRef.current = raining ? rainTimerRef.current + delta : 0;
+    if (rainTimerRef.current >= RAIN_INTERVAL) {
+      rainTimerRef.current = 0;
+      const drops = Array.from({ length: RAIN_BATCH }, () =>
+        createObject(
+          RAIN_TYPES[Math.floor(Math.random() * RAIN_TYPES.length)],
+          spawnMaterial,
+          [
+            (Math.random() - 0.5) * RAIN_SPREAD,
+            RAIN_HEIGHT + Math.random() * 2,
+            (Math.random() - 0.5) * RAIN_SPREAD,
+          ]
+        )
+      );
+      setObjects((prev) => [...prev, ...drops].slice(-maxObjects));
+    }
 
-      if (raycaster.ray.intersectPlane(plane, intersectPoint)) {
-        // Keep y above ground
-        intersectPoint.y = Math.max(intersectPoint.y, 0.5);
-
-        draggedBodyRef.current.setNextKinematicTranslation({
-          x: intersectPoint.x,
-          y: intersectPoint.y,
-          z: intersectPoint.z,
-        });
-      }
+    cullTimerRef.current += delta;
+    if (cullTimerRef.current >= CULL_INTERVAL) {
+      cullTimerRef.current = 0;
+      const lost = new Set<string>();
+      bodiesRef.current.forEach((bodyRef, id) => {
+        const body = bodyRef.current;
+        if (body && !body.isSleeping() && body.translation().y < CULL_HEIGHT) lost.add(id);
+      });
+      if (lost.size > 0) setObjects((prev) => prev.filter((obj) => !lost.has(obj.id)));
+    }
+  });
 
-      dragCurrentRef.current = { x: e.clientX, y: e.clientY };
+  const startPlayback = useCallback(
+    (recording: PhysicsRecording) => {
+      if (recording.frames.length === 0) return;
+      Object.assign(playbackClockRef.current, { time: 0, paused: false });
+      setSelectedId(null);
+      dragsRef.current.clear();
+      setDraggingIds([]);
+      setPlayback(recording);
     },
-    [draggingId, camera, raycaster, plane, size]
+    [playbackClockRef]
   );
 
-  const handlePointerUp = useCallback(
-    (e: PointerEvent) => {
-      if (!draggingId || !dragStartRef.current) return;
+  const stopPlayback = useCallback(() => {
+    if (!playback) return;
+
+    // Keep the bodies alive at the shown frame and let them simulate again
+    const frame = playback.frames[findRecordingFrame(playback, playbackClockRef.current.time)];
+    const alive = new Set(frame.ids);
+    playback.objects.forEach((obj) => {
+      const body = bodiesRef.current.get(obj.id)?.current;
+      if (!body || !alive.has(obj.id)) return;
+      body.setBodyType(obj.fixed ? 1 : 0, true); // 0 = Dynamic, 1 = Fixed
+      body.setLinvel({ x: 0, y: 0, z: 0 }, true);
+      body.setAngvel({ x: 0, y: 0, z: 0 }, true);
+    });
+
+    setObjects(playback.objects.filter((obj) => alive.has(obj.id)));
+    setPlayback(null);
+  }, [playback, playbackClockRef]);
+
+  // Latest loadScene for the hash listener, which must not re-run when it changes
+  const loadSceneLatestRef = useRef(loadScene);
+  useEffect(() => {
+    loadSceneLatestRef.current = loadScene;
+  }, [loadScene]);
+
+  // Restore a shared scene from the URL hash, on mount and when the hash changes
+  useEffect(() => {
+    let cancelled = false;
+    const applyHash = (hash: string) => {
+      decodePhysicsSceneHash(hash).then((saved) => {
+        if (saved && !cancelled) loadSceneLatestRef.current(saved);
+      });
+    };
+
+    applyHash(window.location.hash);
+    const handleHashChange = () => applyHash(window.location.hash);
+    window.addEventListener("hashchange", handleHashChange);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("hashchange", handleHashChange);
+    };
+  }, []);
+
+  // Expose functions via refs
+  useEffect(() => {
+    spawnRef.current = (type, model) => spawnObject(type, undefined, undefined, model);
+    resetRef.current = resetScene;
+    captureSceneRef.current = captureScene;
+    loadSceneRef.current = loadScene;
+    clearJointsRef.current = clearJoints;
+    clearForceFieldsRef.current = clearForceFields;
+    startPlaybackRef.current = startPlayback;
+    stopPlaybackRef.current = stopPlayback;
+    inspectorRef.current = {
+      readBody,
+      updateObject,
+      deleteObject,
+      duplicateObject,
+      select: setSelectedId,
+    };
+  }, [
+    spawnObject,
+    resetScene,
+    captureScene,
+    loadScene,
+    clearJoints,
+    clearForceFields,
+    startPlayback,
+    stopPlayback,
+    readBody,
+    updateObject,
+    deleteObject,
+    duplicateObject,
+    spawnRef,
+    resetRef,
+    captureSceneRef,
+    loadSceneRef,
+    clearJointsRef,
+    clearForceFieldsRef,
+    startPlaybackRef,
+    stopPlaybackRef,
+    inspectorRef,
+  ]);
+
+  // Handle drag start
+  const handleDragStart = useCallback(
+    (id: string, rigidBody: RapierRigidBody, e: ThreeEvent<PointerEvent>) => {
+      // Replayed bodies follow the recording; force tool clicks go to the ground
+      if (playback || forceTool) return;
+
+      if (linkTool) {
+        // Picking the first body again cancels the link
+        const first = pendingLinkId && bodiesRef.current.get(pendingLinkId)?.current;
+        if (!first || pendingLinkId === id) {
+          setLinkSelection(pendingLinkId === id ? null : id);
+          return;
+        }
+
+        const joint = createPhysicsJoint(
+          generateJointId(),
+          linkTool.type,
+          { id: pendingLinkId, body: first },
+          { id, body: rigidBody },
+          linkTool.axis
+        );
+        if (joint) setJoints((prev) => [...prev, joint]);
+        else console.error("Failed to link objects: hinges and sliders need matching rotations");
+        setLinkSelection(null);
+        return;
+      }
 
-      const dx = e.clientX - dragStartRef.current.x;
-      const dy = e.clientY - dragStartRef.current.y;
-      const dt = (Date.now() - dragStartRef.current.time) / 1000;
+      setSelectedId(id);
 
-      // Convert screen delta to world velocity
-      const speed = Math.sqrt(dx * dx + dy * dy) / Math.max(dt, 0.1);
-      const vx = (dx / size.width) * speed * 0.1;
-      const vz = (dy / size.height) * speed * 0.1;
+      const drags = dragsRef.current;
+      if (rigidBody.isFixed() || [...drags.values()].some((drag) => drag.id === id)) return;
 
-      handleDragEnd([vx, Math.max(0, -dy / size.height) * 10, vz]);
+      const drag = createDrag(id, rigidBody, e.point, camera, e.shiftKey, performance.now());
+      drags.set(e.pointerId, drag);
+      setDraggingIds([...drags.values()].map(({ id }) => id));
+
+      // Make kinematic while dragging
+      rigidBody.setBodyType(2, true); // 2 = KinematicPositionBased
     },
-    [draggingId, handleDragEnd, size]
+    [playback, forceTool, linkTool, pendingLinkId, camera]
   );
 
+  // Follow each dragging pointer, and throw on release
+  useEffect(() => {
+    const drags = dragsRef.current;
+    const pointer = new THREE.Vector2();
+
+    // Drags whose body was removed meanwhile are dropped
+    const getDrag = (pointerId: number) => {
+      const drag = drags.get(pointerId);
+      if (drag && bodiesRef.current.get(drag.id)?.current === drag.body) return drag;
+      if (drag) {
+        drags.delete(pointerId);
+        setDraggingIds([...drags.values()].map(({ id }) => id));
+      }
+      return null;
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const drag = getDrag(e.pointerId);
+      if (!drag) return;
+
+      const rect = gl.domElement.getBoundingClientRect();
+      pointer.set(
+        ((e.clientX - rect.left) / rect.width) * 2 - 1,
+        -((e.clientY - rect.top) / rect.height) * 2 + 1
+      );
+      raycaster.setFromCamera(pointer, camera);
+
+      const target = moveDrag(drag, raycaster.ray, camera, e.shiftKey, performance.now());
+      if (target) drag.body.setNextKinematicTranslation(target);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      const drag = getDrag(e.pointerId);
+      if (!drag) return;
+      drags.delete(e.pointerId);
+      setDraggingIds([...drags.values()].map(({ id }) => id));
+
+      // Cancelled touches drop the body instead of throwing it
+      const velocity =
+        e.type === "pointercancel"
+          ? new THREE.Vector3()
+          : getThrowVelocity(drag, performance.now());
+      drag.body.setBodyType(0, true); // 0 = Dynamic
+      drag.body.setLinvel(velocity, true);
+    };
+
+    // On the window so releases outside the canvas still end the drag
+    window.addEventListener("pointermove", handlePointerMove);
+    window.addEventListener("pointerup", handlePointerUp);
+    window.addEventListener("pointercancel", handlePointerUp);
+    return () => {
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("pointercancel", handlePointerUp);
+    };
+  }, [gl, camera, raycaster]);
+
   // Double-click to spawn
   const handleDoubleClick = useCallback(
     (e: MouseEvent) => {
+      if (playback || forceTool) return;
+
       const mouse = new THREE.Vector2(
         (e.clientX / size.width) * 2 - 1,
         -(e.clientY / size.height) * 2 + 1
@@ -421,60 +928,83 @@ export function PhysicsScene({
         spawnObject(randomType, [intersectPoint.x, Math.max(intersectPoint.y, 2), intersectPoint.z]);
       }
     },
-    [camera, raycaster, plane, size, spawnObject]
+    [camera, raycaster, plane, size, spawnObject, playback, forceTool]
   );
 
-  // Setup drag listeners on canvas
+  // Double-click listener on canvas
   useEffect(() => {
     const canvas = gl.domElement;
-
-    const onPointerDown = (e: PointerEvent) => {
-      if (draggingId) {
-        dragStartRef.current = { x: e.clientX, y: e.clientY, time: Date.now() };
-      }
-    };
-
-    canvas.addEventListener("pointermove", handlePointerMove);
-    canvas.addEventListener("pointerup", handlePointerUp);
-    canvas.addEventListener("pointerdown", onPointerDown);
     canvas.addEventListener("dblclick", handleDoubleClick);
-
-    return () => {
-      canvas.removeEventListener("pointermove", handlePointerMove);
-      canvas.removeEventListener("pointerup", handlePointerUp);
-      canvas.removeEventListener("pointerdown", onPointerDown);
-      canvas.removeEventListener("dblclick", handleDoubleClick);
-    };
-  }, [gl, handlePointerMove, handlePointerUp, handleDoubleClick, draggingId]);
-
-  // Track when dragging starts to capture initial position
-  useEffect(() => {
-    if (draggingId) {
-      const canvas = gl.domElement;
-      const rect = canvas.getBoundingClientRect();
-      dragStartRef.current = {
-        x: dragCurrentRef.current.x || rect.left + rect.width / 2,
-        y: dragCurrentRef.current.y || rect.top + rect.height / 2,
-        time: Date.now(),
-      };
-    }
-  }, [draggingId, gl]);
+    return () => canvas.removeEventListener("dblclick", handleDoubleClick);
+  }, [gl, handleDoubleClick]);
 
   return (
     <>
-      <Ground />
+      <Ground onClick={forceTool ? handleGroundClick : handleGroundSelect} />
       <Walls />
 
       {/* Render physics objects */}
-      {objects.map((obj) => (
+      {renderedObjects.map((obj) => (
         <PhysicsBody
           key={obj.id}
           obj={obj}
           onDragStart={handleDragStart}
-          isDragging={draggingId === obj.id}
+          onRegister={registerBody}
+          onImpact={handleImpact}
+          isDragging={draggingIds.includes(obj.id)}
+          isHighlighted={pendingLinkId === obj.id}
+          isSelected={!playback && selectedId === obj.id}
+          instanced={instanced}
           isMobile={device.isMobile}
         />
       ))}
+
+      {instanced && (
+        <PhysicsInstancedBodies
+          objects={instancedObjects}
+          bodiesRef={bodiesRef}
+          capacity={maxObjects}
+          onDragStart={handleDragStart}
+          draggingIds={draggingIds}
+          isMobile={device.isMobile}
+        />
+      )}
+      {instanced &&
+        instancedObjects
+          .filter((obj) => obj.id === pendingLinkId || (!playback && obj.id === selectedId))
+          .map((obj) => (
+            <PhysicsInstanceMarker
+              key={obj.id}
+              obj={obj}
+              bodiesRef={bodiesRef}
+              color={obj.id === pendingLinkId ? "#22d3ee" : "#ffffff"}
+            />
+          ))}
+
+      <PhysicsImpactParticles impactsRef={impactsRef} />
+
+      {/* Joints mount after the bodies they connect */}
+      {renderedJoints.map((joint) => (
+        <PhysicsJointLink key={joint.id} joint={joint} bodiesRef={bodiesRef} />
+      ))}
+
+      {forceFields.map((field) => (
+        <PhysicsForceFieldGizmo
+          key={field.id}
+          field={field}
+          onRemove={forceTool ? removeForceField : undefined}
+        />
+      ))}
+      {explosions.map((explosion) => (
+        <PhysicsExplosionFlash
+          key={explosion.id}
+          position={explosion.position}
+          radius={explosion.radius}
+          onDone={() =>
+            setExplosions((prev) => prev.filter((other) => other.id !== explosion.id))
+          }
+        />
+      ))}
     </>
   );
 }
@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect, useState, type RefObject } from "react";
+import { Circle, Square, Play, Pause, LogOut } from "lucide-react";
+import {
+  createPlaybackClock,
+  PLAYBACK_SPEEDS,
+  type PhysicsRecording,
+  type PlaybackClock,
+} from "./recording";
+import { panelButtonClassName, PANEL_POLL_INTERVAL_MS } from "./panels";
+import type { ReplayMode } from "./types";
+
+interface ReplayControlsProps {
+  mode: ReplayMode;
+  /** Last finished recording */
+  recording: PhysicsRecording | null;
+  /** Recording in progress */
+  recordingRef: RefObject<PhysicsRecording | null>;
+  clockRef: RefObject<PlaybackClock>;
+  onRecord: () => void;
+  onStopRecording: () => void;
+  onPlay: () => void;
+  onExitPlayback: () => void;
+}
+
+function formatSeconds(value: number) {
+  return `${value.toFixed(1)}s`;
+}
+
+export function ReplayControls({
+  mode,
+  recording,
+  recordingRef,
+  clockRef,
+  onRecord,
+  onStopRecording,
+  onPlay,
+  onExitPlayback,
+}: ReplayControlsProps) {
+  const [recordedSeconds, setRecordedSeconds] = useState(0);
+  const [clock, setClock] = useState<PlaybackClock>(createPlaybackClock);
+
+  // Track the recorded length (stopping once the recorder is full) or the playhead
+  useEffect(() => {
+    if (mode === "idle") return;
+
+    const interval = setInterval(() => {
+      if (mode === "recording") {
+        const current = recordingRef.current;
+        setRecordedSeconds(current?.duration ?? 0);
+        if (current?.full) onStopRecording();
+      } else {
+        setClock({ ...clockRef.current });
+      }
+    }, PANEL_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [mode, recordingRef, clockRef, onStopRecording]);
+
+  const updateClock = (changes: Partial<PlaybackClock>) => {
+    Object.assign(clockRef.current, changes);
+    setClock({ ...clockRef.current });
+  };
+
+  const togglePaused = () => {
+    if (!recording) return;
+    // Resuming at the end starts over
+    const atEnd = clock.time >= recording.duration;
+    updateClock({ paused: !clock.paused, time: clock.paused && atEnd ? 0 : clock.time });
+  };
+
+  return (
+    <div className="absolute right-6 top-6 z-50 flex items-center gap-2 rounded-xl bg-black/50 p-2 text-sm backdrop-blur-md">
+      {mode === "recording" ? (
+        <>
+          <button onClick={onStopRecording} className={panelButtonClassName} title="Stop Recording">
+            <Square className="h-4 w-4 fill-red-400 text-red-400" />
+          </button>
+          <span className="flex items-center gap-2 font-mono text-red-400">
+            <span className="h-2 w-2 animate-pulse rounded-full bg-red-500" />
+            {formatSeconds(recordedSeconds)}
+          </span>
+        </>
+      ) : mode === "playback" && recording ? (
+        <>
+          <button
+            onClick={togglePaused}
+            className={panelButtonClassName}
+            title={clock.paused ? "Play" : "Pause"}
+          >
+            {clock.paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={recording.duration}
+            step={0.01}
+            value={Math.min(clock.time, recording.duration)}
+            onChange={(e) => updateClock({ time: parseFloat(e.target.value) })}
+            className="w-40 accent-primary"
+            aria-label="Playback position"
+          />
+          <span className="w-24 font-mono text-xs text-foreground-muted">
+            {formatSeconds(clock.time)} / {formatSeconds(recording.duration)}
+          </span>
+          <select
+            value={clock.speed}
+            onChange={(e) => updateClock({ speed: parseFloat(e.target.value) })}
+            className="rounded-md bg-white/10 px-2 py-1 text-xs text-white"
+            aria-label="Playback speed"
+          >
+            {PLAYBACK_SPEEDS.map((speed) => (
+              <option key={speed} value={speed} className="bg-black">
+                {speed}×
+              </option>
+            ))}
+          </select>
+          <button onClick={onExitPlayback} className={panelButtonClassName} title="Resume Simulation">
+            <LogOut className="h-4 w-4" />
+          </button>
+        </>
+      ) : (
+        <>
+          <button onClick={onRecord} className={panelButtonClassName} title="Record">
+            <Circle className="h-4 w-4 fill-red-500 text-red-500" />
+          </button>
+          <button
+            onClick={onPlay}
+            disabled={!recording}
+            className={panelButtonClassName}
+            title="Replay Recording"
+          >
+            <Play className="h-4 w-4" />
+          </button>
+          {recording && (
+            <span className="font-mono text-xs text-foreground-muted">
+              {formatSeconds(recording.duration)}
+            </span>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
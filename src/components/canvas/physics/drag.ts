@@ -0,0 +1,114 @@
+/**
+ * Body dragging
+ *
+ * A grabbed body follows the pointer across a plane through the grab point
+ * that faces the camera, so it tracks the cursor from any view. While Shift
+ * is held the plane turns upright and only the height follows the pointer,
+ * for lifting. Throws use the pointer's velocity over the last moments of
+ * the drag, so a flick at the end of a slow drag still flies.
+ */
+
+import type { RapierRigidBody } from "@react-three/rapier";
+import * as THREE from "three";
+
+export interface PhysicsDrag {
+  /** Object id */
+  id: string;
+  body: RapierRigidBody;
+  /** Grab point relative to the body centre */
+  offset: THREE.Vector3;
+  plane: THREE.Plane;
+  lifting: boolean;
+  /** Recent grab point positions (time in ms) */
+  history: { time: number; position: THREE.Vector3 }[];
+}
+
+// Throw velocity is measured over this much of the drag's end
+const VELOCITY_WINDOW_MS = 100;
+const MAX_THROW_SPEED = 30;
+// Lowest a dragged body's centre goes, so it isn't pushed through the ground
+const MIN_HEIGHT = 0.5;
+
+// Pre-allocated temporaries
+const normal = new THREE.Vector3();
+const hit = new THREE.Vector3();
+
+// Camera-facing plane, or upright (facing the camera horizontally) for lifting
+function orientPlane(drag: PhysicsDrag, point: THREE.Vector3, camera: THREE.Camera) {
+  camera.getWorldDirection(normal);
+  if (drag.lifting) normal.y = 0;
+  if (normal.lengthSq() < 1e-6) normal.set(0, 0, -1);
+  drag.plane.setFromNormalAndCoplanarPoint(normal.normalize(), point);
+}
+
+export function createDrag(
+  id: string,
+  body: RapierRigidBody,
+  grabPoint: THREE.Vector3,
+  camera: THREE.Camera,
+  lifting: boolean,
+  time: number
+): PhysicsDrag {
+  const t = body.translation();
+  const drag: PhysicsDrag = {
+    id,
+    body,
+    offset: grabPoint.clone().sub(new THREE.Vector3(t.x, t.y, t.z)),
+    plane: new THREE.Plane(),
+    lifting,
+    history: [{ time, position: grabPoint.clone() }],
+  };
+  orientPlane(drag, grabPoint, camera);
+  return drag;
+}
+
+/**
+ * Follow the pointer ray; returns where the body centre should go
+ * (null when the ray misses the plane)
+ */
+export function moveDrag(
+  drag: PhysicsDrag,
+  ray: THREE.Ray,
+  camera: THREE.Camera,
+  lifting: boolean,
+  time: number
+): THREE.Vector3 | null {
+  const last = drag.history[drag.history.length - 1].position;
+
+  // Toggling the modifier re-plants the plane where the body is now
+  if (lifting !== drag.lifting) {
+    drag.lifting = lifting;
+    orientPlane(drag, last, camera);
+  }
+
+  if (!ray.intersectPlane(drag.plane, hit)) return null;
+  if (lifting) hit.set(last.x, hit.y, last.z);
+
+  drag.history.push({ time, position: hit.clone() });
+  while (drag.history.length > 2 && time - drag.history[0].time > VELOCITY_WINDOW_MS) {
+    drag.history.shift();
+  }
+
+  const target = hit.clone().sub(drag.offset);
+  target.y = Math.max(target.y, MIN_HEIGHT);
+  return target;
+}
+
+/**
+ * Pointer velocity over the end of the drag (zero if it was held still)
+ */
+export function getThrowVelocity(drag: PhysicsDrag, time: number): THREE.Vector3 {
+  const recent = drag.history.filter((sample) => time - sample.time <= VELOCITY_WINDOW_MS);
+  const velocity = new THREE.Vector3();
+  if (recent.length < 2) return velocity;
+
+  const first = recent[0];
+  const last = recent[recent.length - 1];
+  const dt = (last.time - first.time) / 1000;
+  if (dt <= 0) return velocity;
+
+  return velocity
+    .subVectors(last.position, first.position)
+    .divideScalar(dt)
+    .clampLength(0, MAX_THROW_SPEED);
+}
@@ -0,0 +1,146 @@
+/**
+ * Force fields
+ *
+ * Fields act as accelerations (scaled by each body's mass), so a steel ball
+ * and a wooden block in the same wind speed up alike, just as under gravity.
+ * Every field fades linearly to nothing at its radius, except wind, which is
+ * uniform inside its volume. Only dynamic bodies are pushed; fixed scenery
+ * and bodies being dragged or replayed are left alone.
+ */
+
+import type { RapierRigidBody } from "@react-three/rapier";
+import * as THREE from "three";
+import type { PhysicsForceField, PhysicsForceFieldType, PhysicsForceTool } from "./types";
+
+export const PHYSICS_FORCE_TOOLS: {
+  type: PhysicsForceTool["type"];
+  label: string;
+  color: string;
+  strength: number;
+}[] = [
+  { type: "attractor", label: "Attractor", color: "#a855f7", strength: 20 },
+  { type: "repulsor", label: "Repulsor", color: "#f87171", strength: 20 },
+  { type: "explosion", label: "Explosion", color: "#fb923c", strength: 12 },
+  { type: "wind", label: "Wind", color: "#22d3ee", strength: 15 },
+  { type: "vortex", label: "Vortex", color: "#4ade80", strength: 15 },
+];
+
+export const FORCE_STRENGTH_RANGE = { min: 1, max: 50 };
+export const FORCE_RADIUS_RANGE = { min: 1, max: 10 };
+
+export function getForceToolColor(type: PhysicsForceTool["type"]): string {
+  return PHYSICS_FORCE_TOOLS.find((tool) => tool.type === type)?.color ?? "#ffffff";
+}
+
+export function createForceTool(type: PhysicsForceTool["type"], radius = 4): PhysicsForceTool {
+  const strength = PHYSICS_FORCE_TOOLS.find((tool) => tool.type === type)?.strength ?? 10;
+  return { type, strength, radius };
+}
+
+// Pull toward the vortex axis that keeps bodies circling instead of flying off
+const VORTEX_INWARD = 0.5;
+// Lift added to explosion impulses so bodies fly up rather than skid
+const EXPLOSION_LIFT = 0.5;
+
+// Pre-allocated temporaries
+const offset = new THREE.Vector3();
+const acceleration = new THREE.Vector3();
+const up = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Field placed at a point on the ground
+ * @param viewDirection - Camera direction; wind blows along it, level with the ground
+ */
+export function createForceField(
+  id: string,
+  type: PhysicsForceFieldType,
+  point: THREE.Vector3,
+  tool: PhysicsForceTool,
+  viewDirection: THREE.Vector3
+): PhysicsForceField {
+  const direction = new THREE.Vector3(viewDirection.x, 0, viewDirection.z);
+  if (direction.lengthSq() === 0) direction.set(0, 0, -1);
+  direction.normalize();
+
+  return {
+    id,
+    type,
+    // Lifted so bodies resting on the ground are inside the field
+    position: [point.x, Math.max(point.y, 0) + 1, point.z],
+    strength: tool.strength,
+    radius: tool.radius,
+    direction: [direction.x, direction.y, direction.z],
+  };
+}
+
+/**
+ * Push one body for one step
+ */
+export function applyForceField(field: PhysicsForceField, body: RapierRigidBody, dt: number) {
+  if (!body.isDynamic()) return;
+  const t = body.translation();
+  offset.set(field.position[0] - t.x, field.position[1] - t.y, field.position[2] - t.z);
+  const distance = offset.length();
+  if (distance >= field.radius) return;
+  const falloff = 1 - distance / field.radius;
+
+  switch (field.type) {
+    case "attractor":
+    case "repulsor": {
+      if (distance < 1e-3) return;
+      const sign = field.type === "attractor" ? 1 : -1;
+      acceleration
+        .copy(offset)
+        .divideScalar(distance)
+        .multiplyScalar(sign * field.strength * falloff);
+      break;
+    }
+    case "wind":
+      acceleration.set(...field.direction).multiplyScalar(field.strength);
+      break;
+    case "vortex": {
+      // Spin around the vertical axis through the field
+      offset.y = 0;
+      const horizontal = offset.length();
+      if (horizontal < 1e-3) return;
+      offset.divideScalar(horizontal);
+      acceleration
+        .crossVectors(up, offset)
+        .addScaledVector(offset, VORTEX_INWARD)
+        .multiplyScalar(field.strength * falloff);
+      break;
+    }
+  }
+
+  const scale = body.mass() * dt;
+  body.applyImpulse(
+    { x: acceleration.x * scale, y: acceleration.y * scale, z: acceleration.z * scale },
+    true
+  );
+}
+
+/**
+ * One-off blast; strength is the speed given to a body at the centre
+ */
+export function applyExplosion(
+  center: THREE.Vector3,
+  strength: number,
+  radius: number,
+  bodies: Iterable<RapierRigidBody>
+) {
+  for (const body of bodies) {
+    if (!body.isDynamic()) continue;
+    const t = body.translation();
+    offset.set(t.x - center.x, t.y - center.y, t.z - center.z);
+    const distance = offset.length();
+    if (distance >= radius) continue;
+
+    if (distance > 1e-3) offset.divideScalar(distance);
+    acceleration
+      .copy(offset)
+      .addScaledVector(up, EXPLOSION_LIFT)
+      .normalize()
+      .multiplyScalar(strength * (1 - distance / radius) * body.mass());
+    body.applyImpulse({ x: acceleration.x, y: acceleration.y, z: acceleration.z }, true);
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Impact feedback
+ *
+ * New contacts report the impulse the solver spent resolving them, and that
+ * drives everything here: a short sound synthesised with WebAudio for the
+ * struck body's material, a burst of sparks or dust at the contact point,
+ * and a per-second log of how many impacts happened and the hardest one.
+ * Gentle touches (bodies settling or sliding into each other) are ignored.
+ */
+
+import type { CollisionEnterPayload } from "@react-three/rapier";
+import type { PhysicsMaterialName } from "./types";
+
+export interface PhysicsImpact {
+  point: [number, number, number];
+  /** Newton-seconds */
+  impulse: number;
+  /** Material of the body that reported the impact */
+  material: PhysicsMaterialName;
+}
+
+export interface PhysicsImpactSecond {
+  /** Whole seconds on the performance.now() clock */
+  second: number;
+  count: number;
+  largest: PhysicsImpact;
+}
+
+/** Impacts so far, shared between the scene and the log panel */
+export interface PhysicsImpactLog {
+  total: number;
+  /** Seconds that had impacts, oldest first */
+  seconds: PhysicsImpactSecond[];
+}
+
+interface ImpactSound {
+  /** Ringing modes in Hz (struck solids ring at a few inharmonic pitches) */
+  partials: number[];
+  /** Seconds for the ring to die away */
+  decay: number;
+  /** Share of band-passed noise in the hit (0 = pure tone) */
+  noise: number;
+  /** Centre of the noise band in Hz */
+  noiseFrequency: number;
+}
+
+interface ImpactParticles {
+  /** "sparks" glow and fly fast; "dust" drifts and settles */
+  kind: "sparks" | "dust";
+  color: string;
+}
+
+export const MIN_IMPACT_IMPULSE = 0.3;
+// Impulse that plays at full volume and throws the most particles
+const LOUD_IMPULSE = 12;
+export const LOG_SECONDS = 30;
+
+const IMPACT_SOUNDS: Record<PhysicsMaterialName, ImpactSound> = {
+  rubber: { partials: [85, 140], decay: 0.12, noise: 0.3, noiseFrequency: 300 },
+  ice: { partials: [1900, 3100], decay: 0.08, noise: 0.6, noiseFrequency: 4500 },
+  wood: { partials: [320, 710, 1150], decay: 0.1, noise: 0.5, noiseFrequency: 1400 },
+  steel: { partials: [830, 2260, 3950], decay: 0.7, noise: 0.15, noiseFrequency: 6000 },
+  glass: { partials: [1650, 4050, 6300], decay: 0.35, noise: 0.2, noiseFrequency: 5000 },
+};
+
+export const IMPACT_PARTICLES: Record<PhysicsMaterialName, ImpactParticles> = {
+  rubber: { kind: "dust", color: "#6b7280" },
+  ice: { kind: "dust", color: "#e0f2fe" },
+  wood: { kind: "dust", color: "#a16207" },
+  steel: { kind: "sparks", color: "#fb923c" },
+  glass: { kind: "sparks", color: "#e9d5ff" },
+};
+
+/** 0 for the faintest reported impact, 1 from LOUD_IMPULSE up */
+export function getImpactStrength(impulse: number): number {
+  return Math.min(1, Math.sqrt(impulse / LOUD_IMPULSE));
+}
+
+/**
+ * Impact from a collision event, with a key shared by both bodies' reports
+ * (null when the touch was too gentle)
+ */
+export function readImpact(
+  { manifold, target, other }: CollisionEnterPayload,
+  material: PhysicsMaterialName
+): { pair: string; impact: PhysicsImpact } | null {
+  let impulse = 0;
+  for (let i = 0; i < manifold.numContacts(); i++) impulse += manifold.contactImpulse(i);
+  if (impulse < MIN_IMPACT_IMPULSE) return null;
+
+  const point =
+    manifold.numSolverContacts() > 0
+      ? manifold.solverContactPoint(0)
+      : target.rigidBody?.translation();
+  if (!point) return null;
+
+  const a = target.collider.handle;
+  const b = other.collider.handle;
+  return {
+    pair: `${Math.min(a, b)}:${Math.max(a, b)}`,
+    impact: { point: [point.x, point.y, point.z], impulse, material },
+  };
+}
+
+export function createImpactLog(): PhysicsImpactLog {
+  return { total: 0, seconds: [] };
+}
+
+export function recordImpact(log: PhysicsImpactLog, impact: PhysicsImpact, now: number) {
+  const second = Math.floor(now / 1000);
+  const last = log.seconds[log.seconds.length - 1];
+  if (last && last.second === second) {
+    last.count++;
+    if (impact.impulse > last.largest.impulse) last.largest = impact;
+  } else {
+    log.seconds.push({ second, count: 1, largest: impact });
+    while (log.seconds[0].second <= second - LOG_SECONDS) log.seconds.shift();
+  }
+  log.total++;
+}
+
+export interface ImpactSoundPlayer {
+  play: (impact: PhysicsImpact) => void;
+  /** Closes the audio context (a later play opens a new one) */
+  dispose: () => void;
+}
+
+// Rain can report dozens of impacts a frame; the rest are dropped
+const MAX_VOICES = 12;
+const MASTER_VOLUME = 0.4;
+
+/**
+ * Synthesised impact sounds; the audio context starts on the first impact,
+ * which follows a user gesture in practice
+ */
+export function createImpactSoundPlayer(): ImpactSoundPlayer {
+  let context: AudioContext | null = null;
+  let noise: AudioBuffer | null = null;
+  let voices = 0;
+
+  const getContext = () => {
+    if (!context) {
+      context = new AudioContext();
+      // Half a second of white noise, reused by every hit
+      noise = context.createBuffer(1, context.sampleRate / 2, context.sampleRate);
+      const samples = noise.getChannelData(0);
+      for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+    }
+    if (context.state === "suspended") {
+      context.resume().catch((err) => console.error("Failed to start impact audio:", err));
+    }
+    return context;
+  };
+
+  const play = (impact: PhysicsImpact) => {
+    if (voices >= MAX_VOICES) return;
+    const ctx = getContext();
+    if (ctx.state !== "running" || !noise) return;
+
+    const sound = IMPACT_SOUNDS[impact.material];
+    const volume = getImpactStrength(impact.impulse) * MASTER_VOLUME;
+    // Slight detune so a rain of identical bodies doesn't drone
+    const detune = 1 + (Math.random() - 0.5) * 0.1;
+    const start = ctx.currentTime;
+    const end = start + sound.decay;
+
+    const output = ctx.createGain();
+    output.gain.setValueAtTime(volume, start);
+    output.gain.exponentialRampToValueAtTime(0.0001, end);
+    output.connect(ctx.destination);
+
+    sound.partials.forEach((frequency, i) => {
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.frequency.value = frequency * detune;
+      // Higher modes are quieter
+      gain.gain.value = ((1 - sound.noise) / (i + 1)) * 0.8;
+      oscillator.connect(gain).connect(output);
+      oscillator.start(start);
+      oscillator.stop(end);
+    });
+
+    const source = ctx.createBufferSource();
+    const filter = ctx.createBiquadFilter();
+    const gain = ctx.createGain();
+    source.buffer = noise;
+    filter.type = "bandpass";
+    filter.frequency.value = sound.noiseFrequency * detune;
+    gain.gain.value = sound.noise;
+    source.connect(filter).connect(gain).connect(output);
+    source.start(start);
+    source.stop(end);
+
+    voices++;
+    source.onended = () => {
+      voices--;
+      output.disconnect();
+    };
+  };
+
+  const dispose = () => {
+    const closing = context;
+    context = null;
+    noise = null;
+    voices = 0;
+    closing?.close().catch((err) => console.error("Failed to close impact audio:", err));
+  };
+
+  return { play, dispose };
+}
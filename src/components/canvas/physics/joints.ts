@@ -0,0 +1,162 @@
+/**
+ * Physics joints
+ *
+ * Joints are stored with anchors in each body's local space, so a saved
+ * mechanism (chain, pendulum, hinged door) rebuilds the same wherever its
+ * bodies are placed. Linking two live bodies picks anchors that keep their
+ * current placement: the midpoint between them, or the full distance for
+ * ropes.
+ *
+ * Rapier applies a hinge or slider axis in both bodies' local frames, so
+ * those joints only link bodies that are turned the same way; otherwise the
+ * solver would snap the second body into line.
+ */
+
+import type { RapierContext, RapierRigidBody } from "@react-three/rapier";
+import * as THREE from "three";
+import type { PhysicsJoint, PhysicsJointAxis, PhysicsJointType } from "./types";
+
+type RapierModule = RapierContext["rapier"];
+type JointData = ReturnType<RapierModule["JointData"]["spherical"]>;
+
+export const PHYSICS_JOINT_TYPES: { type: PhysicsJointType; label: string }[] = [
+  { type: "spherical", label: "Ball" },
+  { type: "revolute", label: "Hinge" },
+  { type: "prismatic", label: "Slider" },
+  { type: "rope", label: "Rope" },
+  { type: "fixed", label: "Weld" },
+];
+
+export const PHYSICS_JOINT_AXES: PhysicsJointAxis[] = ["x", "y", "z"];
+
+// Largest rotation difference (radians) a hinge or slider accepts
+const AXIS_JOINT_TOLERANCE = THREE.MathUtils.degToRad(2);
+
+const AXIS_VECTORS: Record<PhysicsJointAxis, THREE.Vector3> = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1),
+};
+
+// Pre-allocated temporaries
+const positionA = new THREE.Vector3();
+const positionB = new THREE.Vector3();
+const inverseA = new THREE.Quaternion();
+const inverseB = new THREE.Quaternion();
+const tempVector = new THREE.Vector3();
+const tempPosition = new THREE.Vector3();
+const tempRotation = new THREE.Quaternion();
+
+function toTuple3(v: THREE.Vector3): [number, number, number] {
+  return [v.x, v.y, v.z];
+}
+
+function toTuple4(q: THREE.Quaternion): [number, number, number, number] {
+  return [q.x, q.y, q.z, q.w];
+}
+
+function readBody(body: RapierRigidBody, position: THREE.Vector3, inverse: THREE.Quaternion) {
+  const t = body.translation();
+  const r = body.rotation();
+  position.set(t.x, t.y, t.z);
+  inverse.set(r.x, r.y, r.z, r.w).invert();
+}
+
+/**
+ * Joint between two live bodies that holds them where they are now
+ * @param axis - World axis for hinges and sliders
+ * @returns null for a hinge or slider between bodies turned differently
+ */
+export function createPhysicsJoint(
+  id: string,
+  type: PhysicsJointType,
+  bodyA: { id: string; body: RapierRigidBody },
+  bodyB: { id: string; body: RapierRigidBody },
+  axis: PhysicsJointAxis = "y"
+): PhysicsJoint | null {
+  readBody(bodyA.body, positionA, inverseA);
+  readBody(bodyB.body, positionB, inverseB);
+
+  const usesAxis = type === "revolute" || type === "prismatic";
+  if (usesAxis && inverseA.angleTo(inverseB) > AXIS_JOINT_TOLERANCE) return null;
+
+  const joint: PhysicsJoint = {
+    id,
+    type,
+    bodyA: bodyA.id,
+    bodyB: bodyB.id,
+    anchorA: [0, 0, 0],
+    anchorB: [0, 0, 0],
+  };
+
+  if (type === "rope") {
+    joint.length = positionA.distanceTo(positionB);
+    return joint;
+  }
+
+  const midpoint = tempVector.addVectors(positionA, positionB).multiplyScalar(0.5);
+  joint.anchorA = toTuple3(midpoint.clone().sub(positionA).applyQuaternion(inverseA));
+  joint.anchorB = toTuple3(midpoint.clone().sub(positionB).applyQuaternion(inverseB));
+
+  if (type === "fixed") {
+    // Both frames map to the world frame, locking the current relative rotation
+    joint.frameA = toTuple4(inverseA);
+    joint.frameB = toTuple4(inverseB);
+  } else if (usesAxis) {
+    joint.axis = toTuple3(AXIS_VECTORS[axis].clone().applyQuaternion(inverseA));
+  }
+
+  return joint;
+}
+
+function toVector([x, y, z]: [number, number, number]) {
+  return { x, y, z };
+}
+
+function toRotation(frame: [number, number, number, number] | undefined) {
+  const [x, y, z, w] = frame ?? [0, 0, 0, 1];
+  return { x, y, z, w };
+}
+
+/**
+ * Rapier joint description for a stored joint
+ */
+export function createJointData(rapier: RapierModule, joint: PhysicsJoint): JointData {
+  const anchorA = toVector(joint.anchorA);
+  const anchorB = toVector(joint.anchorB);
+  const axis = toVector(joint.axis ?? [0, 1, 0]);
+
+  switch (joint.type) {
+    case "fixed":
+      return rapier.JointData.fixed(
+        anchorA,
+        toRotation(joint.frameA),
+        anchorB,
+        toRotation(joint.frameB)
+      );
+    case "spherical":
+      return rapier.JointData.spherical(anchorA, anchorB);
+    case "revolute":
+      return rapier.JointData.revolute(anchorA, anchorB, axis);
+    case "prismatic":
+      return rapier.JointData.prismatic(anchorA, anchorB, axis);
+    case "rope":
+      return rapier.JointData.rope(joint.length ?? 1, anchorA, anchorB);
+  }
+}
+
+/**
+ * World position of a local anchor on a live body
+ */
+export function getAnchorWorldPosition(
+  body: RapierRigidBody,
+  anchor: [number, number, number],
+  target: THREE.Vector3
+): THREE.Vector3 {
+  const t = body.translation();
+  const r = body.rotation();
+  return target
+    .set(anchor[0], anchor[1], anchor[2])
+    .applyQuaternion(tempRotation.set(r.x, r.y, r.z, r.w))
+    .add(tempPosition.set(t.x, t.y, t.z));
+}
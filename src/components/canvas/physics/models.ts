@@ -0,0 +1,171 @@
+/**
+ * Imported models
+ *
+ * GLB/GLTF files become physics bodies. Each model is centred and scaled so
+ * its largest side is 2 units (the size of a box with scale 1), and its
+ * vertices are merged into collider input: a convex hull for moving bodies,
+ * a triangle mesh for fixed scenery.
+ *
+ * Built-in models live in public/assets/models and are listed in index.json.
+ * Dropped files are read from blob URLs that only last as long as the page.
+ */
+
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import type { PhysicsModel } from "./types";
+
+export interface PreparedPhysicsModel {
+  /** Normalised model; clone it for each body */
+  scene: THREE.Group;
+  /** Every vertex (x, y, z) in normalised space */
+  vertices: Float32Array;
+  /** Triangles into vertices */
+  indices: Uint32Array;
+}
+
+interface PhysicsModelIndex {
+  models: { file: string; name?: string }[];
+}
+
+export const PHYSICS_MODEL_DIRECTORY = "/assets/models";
+export const PHYSICS_MODEL_EXTENSIONS = [".glb", ".gltf"];
+
+const MODEL_SIZE = 2;
+const THUMBNAIL_SIZE = 96;
+
+const cache = new Map<string, Promise<PreparedPhysicsModel>>();
+
+function nameFromFile(file: string) {
+  return file.replace(/^.*\//, "").replace(/\.[^.]+$/, "");
+}
+
+// Centre and scale the model, then gather its triangles
+function prepareModel(root: THREE.Object3D): PreparedPhysicsModel {
+  root.updateMatrixWorld(true);
+  const box = new THREE.Box3().setFromObject(root);
+  const size = box.getSize(new THREE.Vector3());
+  const center = box.getCenter(new THREE.Vector3());
+
+  // Wrapped so the file's own root transform is kept
+  const scene = new THREE.Group();
+  scene.scale.setScalar(MODEL_SIZE / Math.max(size.x, size.y, size.z, 1e-6));
+  root.position.sub(center);
+  scene.add(root);
+  scene.updateMatrixWorld(true);
+
+  const vertices: number[] = [];
+  const indices: number[] = [];
+  const vertex = new THREE.Vector3();
+  scene.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const geometry = child.geometry as THREE.BufferGeometry;
+    const position = geometry.getAttribute("position");
+    if (!position) return;
+
+    const base = vertices.length / 3;
+    for (let i = 0; i < position.count; i++) {
+      vertex.fromBufferAttribute(position, i).applyMatrix4(child.matrixWorld);
+      vertices.push(vertex.x, vertex.y, vertex.z);
+    }
+    const index = geometry.getIndex();
+    const count = index ? index.count : position.count;
+    for (let i = 0; i < count; i++) indices.push(base + (index ? index.getX(i) : i));
+  });
+
+  if (vertices.length === 0) throw new Error("Model has no meshes");
+  return { scene, vertices: new Float32Array(vertices), indices: new Uint32Array(indices) };
+}
+
+/**
+ * Load and prepare a model once per URL
+ */
+export function loadPhysicsModel(url: string): Promise<PreparedPhysicsModel> {
+  let pending = cache.get(url);
+  if (!pending) {
+    pending = new GLTFLoader().loadAsync(url).then((gltf) => prepareModel(gltf.scene));
+    cache.set(url, pending);
+    // Let a failed load be retried
+    pending.catch(() => cache.delete(url));
+  }
+  return pending;
+}
+
+/**
+ * Small PNG preview for the spawn toolbar (null when WebGL is unavailable)
+ */
+export function renderPhysicsModelThumbnail(model: PreparedPhysicsModel): string | null {
+  let renderer: THREE.WebGLRenderer | null = null;
+  try {
+    renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true });
+    renderer.setSize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, false);
+
+    const stage = new THREE.Scene();
+    const light = new THREE.DirectionalLight(0xffffff, 2);
+    light.position.set(3, 5, 4);
+    stage.add(new THREE.AmbientLight(0xffffff, 1), light, model.scene.clone(true));
+
+    // The normalised model fits a sphere of radius sqrt(3)
+    const camera = new THREE.PerspectiveCamera(35, 1, 0.1, 100);
+    camera.position.set(3.2, 2.4, 4);
+    camera.lookAt(0, 0, 0);
+
+    renderer.render(stage, camera);
+    return renderer.domElement.toDataURL("image/png");
+  } catch (err) {
+    console.error("Failed to render model thumbnail:", err);
+    return null;
+  } finally {
+    renderer?.dispose();
+    renderer?.forceContextLoss();
+  }
+}
+
+async function createPhysicsModel(url: string, name: string): Promise<PhysicsModel> {
+  const prepared = await loadPhysicsModel(url);
+  return { id: url, name, url, thumbnail: renderPhysicsModelThumbnail(prepared) };
+}
+
+/**
+ * Load every model listed in the index (broken files are skipped)
+ */
+export async function fetchPhysicsModels(): Promise<PhysicsModel[]> {
+  const response = await fetch(`${PHYSICS_MODEL_DIRECTORY}/index.json`);
+  if (!response.ok) throw new Error(`${response.url}: ${response.status} ${response.statusText}`);
+  const index = (await response.json()) as Partial<PhysicsModelIndex>;
+  const entries = Array.isArray(index.models)
+    ? index.models.filter((entry) => typeof entry?.file === "string")
+    : [];
+
+  const models = await Promise.all(
+    entries.map(async ({ file, name }) => {
+      try {
+        return await createPhysicsModel(
+          `${PHYSICS_MODEL_DIRECTORY}/${file}`,
+          typeof name === "string" ? name : nameFromFile(file)
+        );
+      } catch (err) {
+        console.error(`Failed to load physics model "${file}":`, err);
+        return null;
+      }
+    })
+  );
+  return models.filter((model) => model !== null);
+}
+
+export function isPhysicsModelFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return PHYSICS_MODEL_EXTENSIONS.some((extension) => name.endsWith(extension));
+}
+
+/**
+ * Model from a dropped or picked file (.gltf files must embed their buffers)
+ */
+export async function importPhysicsModelFile(file: File): Promise<PhysicsModel> {
+  const url = URL.createObjectURL(file);
+  try {
+    return await createPhysicsModel(url, nameFromFile(file.name));
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    throw err;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Shared look and refresh rate of the playground's overlay panels
+ * (replay controls, inspector and collision log)
+ */
+
+/** Square icon button in a panel header or toolbar */
+export const panelButtonClassName =
+  "group flex h-8 w-8 items-center justify-center rounded-lg bg-white/5 text-foreground-muted transition-all hover:bg-primary/20 hover:text-primary hover:scale-105 active:scale-95 disabled:pointer-events-none disabled:opacity-40";
+
+/** Panels re-read scene refs at this rate rather than re-rendering every frame */
+export const PANEL_POLL_INTERVAL_MS = 100;
@@ -0,0 +1,171 @@
+/**
+ * Physics scene presets
+ *
+ * Built-in presets are scene files in public/assets/presets/physics, listed
+ * by id in index.json; adding a scene there needs no code changes. Scenes
+ * saved from the playground use the same format and persist in
+ * localStorage.
+ */
+
+import { parsePhysicsPreset, serializePhysicsScene, toSerializedScene } from "./serialization";
+import type { PhysicsPreset, PhysicsSceneSnapshot } from "./types";
+
+interface PhysicsPresetIndex {
+  presets: string[];
+}
+
+interface StoredPhysicsPresets {
+  version: 1;
+  /** Unchecked until read; entries that fail validation are kept as they are */
+  presets: unknown[];
+}
+
+export const PHYSICS_PRESET_DIRECTORY = "/assets/presets/physics";
+
+const STORAGE_KEY = "physics-presets";
+const USER_ID_PREFIX = "user-";
+const EMPTY: PhysicsPreset[] = [];
+
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url}: ${response.status} ${response.statusText}`);
+  return response.text();
+}
+
+/**
+ * Load every preset listed in the index (broken files are skipped)
+ */
+export async function fetchPhysicsPresets(): Promise<PhysicsPreset[]> {
+  const index = JSON.parse(
+    await fetchText(`${PHYSICS_PRESET_DIRECTORY}/index.json`)
+  ) as Partial<PhysicsPresetIndex>;
+  const ids = Array.isArray(index.presets)
+    ? index.presets.filter((id): id is string => typeof id === "string")
+    : [];
+
+  const presets = await Promise.all(
+    ids.map(async (id) => {
+      try {
+        return parsePhysicsPreset(await fetchText(`${PHYSICS_PRESET_DIRECTORY}/${id}.json`), id);
+      } catch (err) {
+        console.error(`Failed to load physics preset "${id}":`, err);
+        return null;
+      }
+    })
+  );
+  return presets.filter((preset) => preset !== null);
+}
+
+function slugify(name: string) {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "scene"
+  );
+}
+
+/**
+ * Snapshot the current scene as a user preset
+ */
+export function createPhysicsPreset(name: string, scene: PhysicsSceneSnapshot): PhysicsPreset {
+  const trimmed = name.trim();
+  return {
+    id: `${USER_ID_PREFIX}${slugify(trimmed)}`,
+    name: trimmed,
+    ...toSerializedScene(scene),
+  };
+}
+
+/**
+ * Preset file contents (same format as a saved scene)
+ */
+export function serializePhysicsPreset(preset: PhysicsPreset): string {
+  return serializePhysicsScene(preset, {
+    name: preset.name,
+    description: preset.description,
+  });
+}
+
+// User preset store (localStorage-backed, shaped for useSyncExternalStore)
+let snapshot: PhysicsPreset[] | null = null;
+// Stored entries that failed validation, written back so a save doesn't drop them
+let unreadable: unknown[] = [];
+const listeners = new Set<() => void>();
+
+function readStorage(): PhysicsPreset[] {
+  unreadable = [];
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const data = JSON.parse(stored) as Partial<StoredPhysicsPresets>;
+    if (!Array.isArray(data.presets)) return [];
+
+    // Stored presets go through the same validation as preset files
+    return data.presets.flatMap((entry) => {
+      const id = (entry as Partial<PhysicsPreset> | null)?.id;
+      try {
+        if (typeof id !== "string") throw new Error("Missing preset id");
+        return [parsePhysicsPreset(JSON.stringify(entry), id)];
+      } catch (err) {
+        console.error(`Failed to read physics preset "${String(id)}":`, err);
+        unreadable.push(entry);
+        return [];
+      }
+    });
+  } catch (err) {
+    console.error("Failed to read physics presets:", err);
+    return [];
+  }
+}
+
+function commit(presets: PhysicsPreset[]) {
+  snapshot = presets;
+  try {
+    const stored: StoredPhysicsPresets = { version: 1, presets: [...presets, ...unreadable] };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (err) {
+    console.error("Failed to save physics presets:", err);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Presets saved in this browser (stable between changes, empty during SSR)
+ */
+export function getUserPhysicsPresets(): PhysicsPreset[] {
+  if (typeof window === "undefined") return EMPTY;
+  snapshot ??= readStorage();
+  return snapshot;
+}
+
+export function getServerUserPhysicsPresets(): PhysicsPreset[] {
+  return EMPTY;
+}
+
+export function subscribeToUserPhysicsPresets(listener: () => void): () => void {
+  // Pick up saves from other tabs
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    snapshot = readStorage();
+    listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+}
+
+/**
+ * Save a user preset, replacing any with the same id
+ */
+export function saveUserPhysicsPreset(preset: PhysicsPreset) {
+  commit([...getUserPhysicsPresets().filter((existing) => existing.id !== preset.id), preset]);
+}
+
+export function deleteUserPhysicsPreset(id: string) {
+  commit(getUserPhysicsPresets().filter((preset) => preset.id !== id));
+}
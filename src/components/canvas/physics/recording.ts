@@ -0,0 +1,208 @@
+/**
+ * Physics recording and replay
+ *
+ * Every physics step appends the transform (position + quaternion) of each
+ * body, so playback shows exactly what happened regardless of frame rate or
+ * solver nondeterminism. Bodies spawned mid-recording are added to the
+ * object list as they appear; a frame only lists the bodies alive at that
+ * step.
+ */
+
+import type { RefObject } from "react";
+import type { RapierRigidBody } from "@react-three/rapier";
+import * as THREE from "three";
+import type { PhysicsObject } from "./types";
+
+export interface PhysicsRecordingFrame {
+  /** Seconds since recording started */
+  time: number;
+  /** Bodies in this frame (shared between frames while unchanged) */
+  ids: string[];
+  /** 7 floats per id: position xyz, quaternion xyzw */
+  transforms: Float32Array;
+}
+
+export interface PhysicsRecording {
+  /** Every body that appeared during the recording */
+  objects: PhysicsObject[];
+  /** Ids in `objects`, for the per-step lookup */
+  knownIds: Set<string>;
+  frames: PhysicsRecordingFrame[];
+  duration: number;
+  /** Transform floats across all frames, counted against MAX_RECORDING_FLOATS */
+  floats: number;
+  /** Set once the time or memory budget runs out; later frames are dropped */
+  full: boolean;
+}
+
+/** Playback position and rate, shared between the scene and the controls */
+export interface PlaybackClock {
+  time: number;
+  paused: boolean;
+  speed: number;
+}
+
+export const TRANSFORM_SIZE = 7;
+export const MAX_RECORDING_SECONDS = 60;
+// 64 MB of transforms: a minute of a few hundred bodies, or seconds of a full rain
+const MAX_RECORDING_FLOATS = 16 * 1024 * 1024;
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2];
+
+export function createPhysicsRecording(objects: PhysicsObject[]): PhysicsRecording {
+  return {
+    objects: [...objects],
+    knownIds: new Set(objects.map((obj) => obj.id)),
+    frames: [],
+    duration: 0,
+    floats: 0,
+    full: false,
+  };
+}
+
+export function createPlaybackClock(): PlaybackClock {
+  return { time: 0, paused: false, speed: 1 };
+}
+
+function sameIds(a: string[], b: string[]) {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+/**
+ * Append the current transform of every body, marking the recording full
+ * when it runs out of time or memory
+ */
+export function recordPhysicsFrame(
+  recording: PhysicsRecording,
+  objects: PhysicsObject[],
+  bodies: Map<string, RefObject<RapierRigidBody | null>>,
+  delta: number
+) {
+  if (recording.full) return;
+  const lastFrame = recording.frames[recording.frames.length - 1];
+  const time = lastFrame ? lastFrame.time + delta : 0;
+  if (time > MAX_RECORDING_SECONDS) {
+    recording.full = true;
+    return;
+  }
+
+  const ids: string[] = [];
+  const frameBodies: RapierRigidBody[] = [];
+  const added: PhysicsObject[] = [];
+  for (const obj of objects) {
+    const body = bodies.get(obj.id)?.current;
+    if (!body) continue;
+    ids.push(obj.id);
+    frameBodies.push(body);
+    if (!recording.knownIds.has(obj.id)) added.push(obj);
+  }
+
+  const size = ids.length * TRANSFORM_SIZE;
+  if (recording.floats + size > MAX_RECORDING_FLOATS) {
+    recording.full = true;
+    return;
+  }
+
+  for (const obj of added) {
+    recording.knownIds.add(obj.id);
+    recording.objects.push(obj);
+  }
+
+  const transforms = new Float32Array(size);
+  frameBodies.forEach((body, i) => {
+    const position = body.translation();
+    const rotation = body.rotation();
+    const offset = i * TRANSFORM_SIZE;
+    transforms[offset] = position.x;
+    transforms[offset + 1] = position.y;
+    transforms[offset + 2] = position.z;
+    transforms[offset + 3] = rotation.x;
+    transforms[offset + 4] = rotation.y;
+    transforms[offset + 5] = rotation.z;
+    transforms[offset + 6] = rotation.w;
+  });
+
+  recording.frames.push({
+    time,
+    ids: lastFrame && sameIds(lastFrame.ids, ids) ? lastFrame.ids : ids,
+    transforms,
+  });
+  recording.floats += size;
+  recording.duration = time;
+}
+
+/**
+ * Index of the last frame at or before `time` (binary search)
+ */
+export function findRecordingFrame(recording: PhysicsRecording, time: number): number {
+  const { frames } = recording;
+  let low = 0;
+  let high = frames.length - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (frames[mid].time <= time) low = mid;
+    else high = mid - 1;
+  }
+
+  return low;
+}
+
+// Bodies not alive at the shown frame wait out of sight below the ground
+const PARKED_POSITION = { x: 0, y: -50, z: 0 };
+
+// Pre-allocated for interpolation
+const tempPosition = new THREE.Vector3();
+const tempNextPosition = new THREE.Vector3();
+const tempRotation = new THREE.Quaternion();
+const tempNextRotation = new THREE.Quaternion();
+
+/**
+ * Move every body to its recorded transform at `time`
+ *
+ * Bodies are switched to kinematic so they follow the recording exactly;
+ * frames are interpolated when both sides hold the same bodies.
+ */
+export function applyRecordingFrame(
+  recording: PhysicsRecording,
+  time: number,
+  bodies: Map<string, RefObject<RapierRigidBody | null>>
+) {
+  if (recording.frames.length === 0) return;
+
+  const index = findRecordingFrame(recording, time);
+  const frame = recording.frames[index];
+  const next = recording.frames[index + 1];
+  const interpolate = next && next.ids === frame.ids && next.time > frame.time;
+  const alpha = interpolate ? (time - frame.time) / (next.time - frame.time) : 0;
+  const alive = new Set(frame.ids);
+
+  frame.ids.forEach((id, i) => {
+    const body = bodies.get(id)?.current;
+    if (!body) return;
+    if (body.bodyType() !== 2) body.setBodyType(2, true); // 2 = KinematicPositionBased
+
+    const offset = i * TRANSFORM_SIZE;
+    const t = frame.transforms;
+    tempPosition.set(t[offset], t[offset + 1], t[offset + 2]);
+    tempRotation.set(t[offset + 3], t[offset + 4], t[offset + 5], t[offset + 6]);
+
+    if (interpolate) {
+      const n = next.transforms;
+      tempNextPosition.set(n[offset], n[offset + 1], n[offset + 2]);
+      tempNextRotation.set(n[offset + 3], n[offset + 4], n[offset + 5], n[offset + 6]);
+      tempPosition.lerp(tempNextPosition, alpha);
+      tempRotation.slerp(tempNextRotation, alpha);
+    }
+
+    body.setNextKinematicTranslation(tempPosition);
+    body.setNextKinematicRotation(tempRotation);
+  });
+
+  for (const obj of recording.objects) {
+    if (alive.has(obj.id)) continue;
+    const body = bodies.get(obj.id)?.current;
+    if (!body) continue;
+    if (body.bodyType() !== 2) body.setBodyType(2, true);
+    body.setNextKinematicTranslation(PARKED_POSITION);
+  }
+}
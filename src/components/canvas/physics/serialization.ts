@@ -0,0 +1,361 @@
+/**
+ * Physics scene serialization
+ *
+ * A scene is the list of bodies with the state read back from Rapier at
+ * save time (position, rotation, linear and angular velocity), plus the
+ * joints between them (bodies referenced by index), so a layout reloads
+ * exactly as it was. Scenes round-trip through JSON files and a
+ * compressed URL hash (#scene=<deflate-raw, base64url>) for sharing.
+ *
+ * Presets use the same format with a name and description, so a saved
+ * scene can be dropped into the preset folder as it is.
+ *
+ * Mesh bodies are saved by model path, so only models served with the site
+ * are kept; dropped files (blob: URLs) don't outlive the page.
+ */
+
+import {
+  physicsMaterials,
+  type PhysicsMaterialName,
+  type PhysicsJointType,
+  type PhysicsObjectType,
+  type PhysicsPreset,
+  type PhysicsSceneSnapshot,
+  type SerializedPhysicsJoint,
+  type SerializedPhysicsObject,
+  type SerializedPhysicsScene,
+} from "./types";
+import { PHYSICS_JOINT_TYPES } from "./joints";
+
+export interface PhysicsSceneFile {
+  version: 1;
+  name?: string;
+  description?: string;
+  objects: SerializedPhysicsObject[];
+  joints?: SerializedPhysicsJoint[];
+}
+
+const HASH_KEY = "scene";
+const OBJECT_TYPES: PhysicsObjectType[] = ["sphere", "box", "cylinder", "mesh"];
+// Same-origin paths only
+const MODEL_PATH_PATTERN = /^\/(?!\/)/;
+const JOINT_TYPES = PHYSICS_JOINT_TYPES.map(({ type }) => type);
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const SCALE_RANGE = { min: 0.05, max: 5 };
+// Keep positions inside the walls
+const WORLD_EXTENT = 15;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Four decimals is well below what the eye or the solver notices
+function round(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+function parseTuple<T extends number[]>(value: unknown, length: T["length"]): T | undefined {
+  if (!Array.isArray(value) || value.length !== length || !value.every(isFiniteNumber)) {
+    return undefined;
+  }
+  return value as T;
+}
+
+// Lock flags; undefined unless at least one axis is locked
+function parseAxes(value: unknown): [boolean, boolean, boolean] | undefined {
+  if (!Array.isArray(value) || value.length !== 3 || !value.some((v) => v === true)) {
+    return undefined;
+  }
+  return value.map((v) => v === true) as [boolean, boolean, boolean];
+}
+
+/**
+ * Validate one untrusted body; null when it has no usable type or position
+ */
+function parseObject(raw: unknown): SerializedPhysicsObject | null {
+  if (!raw || typeof raw !== "object") return null;
+  const {
+    type,
+    position,
+    rotation,
+    scale,
+    color,
+    velocity,
+    angularVelocity,
+    fixed,
+    material,
+    model,
+    lockedTranslations,
+    lockedRotations,
+  } = raw as Record<string, unknown>;
+
+  const parsedPosition = parseTuple<[number, number, number]>(position, 3);
+  if (!OBJECT_TYPES.includes(type as PhysicsObjectType) || !parsedPosition) return null;
+  const hasModel = typeof model === "string" && MODEL_PATH_PATTERN.test(model);
+  if (type === "mesh" && !hasModel) return null;
+
+  const parsedRotation = parseTuple<[number, number, number, number]>(rotation, 4);
+  const rotationLength = parsedRotation ? Math.hypot(...parsedRotation) : 0;
+
+  return {
+    type: type as PhysicsObjectType,
+    position: [
+      clamp(parsedPosition[0], -WORLD_EXTENT, WORLD_EXTENT),
+      clamp(parsedPosition[1], 0, WORLD_EXTENT * 2),
+      clamp(parsedPosition[2], -WORLD_EXTENT, WORLD_EXTENT),
+    ],
+    // Renormalise; drop degenerate quaternions
+    rotation:
+      parsedRotation && rotationLength > 0
+        ? (parsedRotation.map((v) => v / rotationLength) as [number, number, number, number])
+        : undefined,
+    scale: isFiniteNumber(scale) ? clamp(scale, SCALE_RANGE.min, SCALE_RANGE.max) : 0.3,
+    color:
+      typeof color === "string" && HEX_COLOR_PATTERN.test(color) ? color.toLowerCase() : "#a78bfa",
+    velocity: parseTuple<[number, number, number]>(velocity, 3),
+    angularVelocity: parseTuple<[number, number, number]>(angularVelocity, 3),
+    fixed: fixed === true || undefined,
+    material:
+      typeof material === "string" && Object.hasOwn(physicsMaterials, material)
+        ? (material as PhysicsMaterialName)
+        : undefined,
+    model: type === "mesh" && hasModel ? model : undefined,
+    lockedTranslations: parseAxes(lockedTranslations),
+    lockedRotations: parseAxes(lockedRotations),
+  };
+}
+
+function normalize<T extends number[]>(value: T | undefined): T | undefined {
+  const length = value ? Math.hypot(...value) : 0;
+  return value && length > 0 ? (value.map((v) => v / length) as T) : undefined;
+}
+
+/**
+ * Validate one untrusted joint
+ * @param indexMap - Saved object index to parsed index (null when dropped)
+ */
+function parseJoint(raw: unknown, indexMap: (number | null)[]): SerializedPhysicsJoint | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { type, bodyA, bodyB, anchorA, anchorB, frameA, frameB, axis, length } = raw as Record<
+    string,
+    unknown
+  >;
+
+  const a = isFiniteNumber(bodyA) ? indexMap[bodyA] : undefined;
+  const b = isFiniteNumber(bodyB) ? indexMap[bodyB] : undefined;
+  if (!JOINT_TYPES.includes(type as PhysicsJointType)) return null;
+  if (a === undefined || a === null || b === undefined || b === null || a === b) return null;
+
+  const joint: SerializedPhysicsJoint = {
+    type: type as PhysicsJointType,
+    bodyA: a,
+    bodyB: b,
+    anchorA: parseTuple<[number, number, number]>(anchorA, 3) ?? [0, 0, 0],
+    anchorB: parseTuple<[number, number, number]>(anchorB, 3) ?? [0, 0, 0],
+  };
+  const parsedFrameA = normalize(parseTuple<[number, number, number, number]>(frameA, 4));
+  const parsedFrameB = normalize(parseTuple<[number, number, number, number]>(frameB, 4));
+  const parsedAxis = normalize(parseTuple<[number, number, number]>(axis, 3));
+  if (parsedFrameA) joint.frameA = parsedFrameA;
+  if (parsedFrameB) joint.frameB = parsedFrameB;
+  if (parsedAxis) joint.axis = parsedAxis;
+  if (isFiniteNumber(length) && length > 0) joint.length = length;
+  return joint;
+}
+
+/**
+ * Plain saved form of a body (drops the runtime id, rounds the numbers)
+ */
+export function toSerializedObject(object: SerializedPhysicsObject): SerializedPhysicsObject {
+  const serialized: SerializedPhysicsObject = {
+    type: object.type,
+    position: object.position.map(round) as [number, number, number],
+    scale: round(object.scale),
+    color: object.color,
+  };
+  if (object.rotation) {
+    serialized.rotation = object.rotation.map(round) as [number, number, number, number];
+  }
+  if (object.velocity) {
+    serialized.velocity = object.velocity.map(round) as [number, number, number];
+  }
+  if (object.angularVelocity) {
+    serialized.angularVelocity = object.angularVelocity.map(round) as [number, number, number];
+  }
+  if (object.fixed) serialized.fixed = true;
+  if (object.material) serialized.material = object.material;
+  if (object.model) serialized.model = object.model;
+  if (object.lockedTranslations?.some(Boolean)) {
+    serialized.lockedTranslations = [...object.lockedTranslations];
+  }
+  if (object.lockedRotations?.some(Boolean)) {
+    serialized.lockedRotations = [...object.lockedRotations];
+  }
+  return serialized;
+}
+
+function toSerializedJoint(joint: SerializedPhysicsJoint): SerializedPhysicsJoint {
+  const serialized: SerializedPhysicsJoint = {
+    type: joint.type,
+    bodyA: joint.bodyA,
+    bodyB: joint.bodyB,
+    anchorA: joint.anchorA.map(round) as [number, number, number],
+    anchorB: joint.anchorB.map(round) as [number, number, number],
+  };
+  if (joint.frameA) {
+    serialized.frameA = joint.frameA.map(round) as [number, number, number, number];
+  }
+  if (joint.frameB) {
+    serialized.frameB = joint.frameB.map(round) as [number, number, number, number];
+  }
+  if (joint.axis) serialized.axis = joint.axis.map(round) as [number, number, number];
+  if (joint.length !== undefined) serialized.length = round(joint.length);
+  return serialized;
+}
+
+/**
+ * Live scene to saved form; joints refer to bodies by index
+ */
+export function toSerializedScene({
+  objects,
+  joints,
+}: PhysicsSceneSnapshot): SerializedPhysicsScene {
+  const saved = objects.filter((obj) => !obj.model || MODEL_PATH_PATTERN.test(obj.model));
+  const indices = new Map(saved.map((obj, index) => [obj.id, index]));
+  return {
+    objects: saved.map(toSerializedObject),
+    joints: joints.flatMap((joint) => {
+      const a = indices.get(joint.bodyA);
+      const b = indices.get(joint.bodyB);
+      // Joints to evicted or unsaved bodies are dropped
+      if (a === undefined || b === undefined) return [];
+      return [toSerializedJoint({ ...joint, bodyA: a, bodyB: b })];
+    }),
+  };
+}
+
+interface SerializeOptions {
+  name?: string;
+  description?: string;
+  pretty?: boolean;
+}
+
+export function serializePhysicsScene(
+  { objects, joints }: SerializedPhysicsScene,
+  { name, description, pretty = true }: SerializeOptions = {}
+): string {
+  const file: PhysicsSceneFile = {
+    version: 1,
+    name,
+    description,
+    objects: objects.map(toSerializedObject),
+    joints: joints.length > 0 ? joints.map(toSerializedJoint) : undefined,
+  };
+  return pretty ? JSON.stringify(file, null, 2) : JSON.stringify(file);
+}
+
+/**
+ * Parse a saved scene, dropping invalid bodies and joints
+ * @throws Error when the JSON is not a scene file
+ */
+export function parsePhysicsSceneFile(json: string): SerializedPhysicsScene {
+  const data: unknown = JSON.parse(json);
+  const file = data && typeof data === "object" ? (data as Partial<PhysicsSceneFile>) : {};
+  const rawObjects: unknown = Array.isArray(data) ? data : file.objects;
+  if (!Array.isArray(rawObjects)) {
+    throw new Error("Not a physics scene file");
+  }
+
+  const objects: SerializedPhysicsObject[] = [];
+  const indexMap = rawObjects.map((raw) => {
+    const object = parseObject(raw);
+    if (!object) return null;
+    objects.push(object);
+    return objects.length - 1;
+  });
+
+  const rawJoints: unknown = Array.isArray(data) ? undefined : file.joints;
+  const joints = Array.isArray(rawJoints)
+    ? rawJoints.map((raw) => parseJoint(raw, indexMap)).filter((joint) => joint !== null)
+    : [];
+
+  return { objects, joints };
+}
+
+/**
+ * Parse a preset file; the name falls back to the id
+ * @throws Error when the JSON is not a scene file
+ */
+export function parsePhysicsPreset(json: string, id: string): PhysicsPreset {
+  const data: unknown = JSON.parse(json);
+  const { name, description } = (data && typeof data === "object" ? data : {}) as Record<
+    string,
+    unknown
+  >;
+
+  return {
+    id,
+    name: typeof name === "string" && name.trim() ? name.trim() : id,
+    description: typeof description === "string" ? description : undefined,
+    ...parsePhysicsSceneFile(json),
+  };
+}
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: GenericTransformStream) {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  // Chunked to stay under the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Compress a scene into a hash fragment (without the leading "#")
+ */
+export async function encodePhysicsSceneHash(scene: SerializedPhysicsScene): Promise<string> {
+  const json = new TextEncoder().encode(serializePhysicsScene(scene, { pretty: false }));
+  const compressed = await transform(json, new CompressionStream("deflate-raw"));
+  return `${HASH_KEY}=${toBase64Url(compressed)}`;
+}
+
+/**
+ * Read a scene back from a hash fragment
+ * Returns null when the hash holds no scene or it fails to decode
+ */
+export async function decodePhysicsSceneHash(
+  hash: string
+): Promise<SerializedPhysicsScene | null> {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(HASH_KEY);
+  if (!encoded) return null;
+
+  try {
+    const json = await transform(fromBase64Url(encoded), new DecompressionStream("deflate-raw"));
+    return parsePhysicsSceneFile(new TextDecoder().decode(json));
+  } catch (err) {
+    console.error("Failed to decode shared physics scene:", err);
+    return null;
+  }
+}
+
+/**
+ * Absolute URL for the current page with the scene in the hash
+ */
+export async function buildPhysicsSceneLink(scene: SerializedPhysicsScene): Promise<string> {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}#${await encodePhysicsSceneHash(scene)}`;
+}
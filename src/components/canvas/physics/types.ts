@@ -1,17 +1,141 @@
 import type { RapierRigidBody } from "@react-three/rapier";
 import type { RefObject } from "react";
+import type { MeshPhysicalMaterialParameters } from "three";
+import type { PhysicsRecording, PlaybackClock } from "./recording";
+import type { PhysicsImpactLog } from "./impacts";
 
-export type PhysicsObjectType = "sphere" | "box" | "cylinder";
+/** "mesh" bodies take their shape from an imported model */
+export type PhysicsObjectType = "sphere" | "box" | "cylinder" | "mesh";
 
-export type PresetType = "bowling" | "dominoes" | "jenga" | "clear";
+export type ReplayMode = "idle" | "recording" | "playback";
 
 export interface PhysicsObject {
   id: string;
   type: PhysicsObjectType;
   position: [number, number, number];
+  /** Quaternion (x, y, z, w) */
+  rotation?: [number, number, number, number];
   scale: number;
   color: string;
   velocity?: [number, number, number];
+  angularVelocity?: [number, number, number];
+  /** Static scenery (ramps, steps); never moves or gets dragged */
+  fixed?: boolean;
+  /** Defaults to glass */
+  material?: PhysicsMaterialName;
+  /** Model URL for mesh bodies */
+  model?: string;
+  /** Axes (x, y, z) the body can't move along or spin around */
+  lockedTranslations?: [boolean, boolean, boolean];
+  lockedRotations?: [boolean, boolean, boolean];
+}
+
+/** Inspector edits to a body */
+export type PhysicsObjectChanges = Partial<
+  Pick<PhysicsObject, "color" | "scale" | "material" | "lockedTranslations" | "lockedRotations">
+>;
+
+/** Live Rapier state of a body */
+export interface PhysicsBodyState {
+  position: [number, number, number];
+  linearVelocity: [number, number, number];
+  angularVelocity: [number, number, number];
+  mass: number;
+  sleeping: boolean;
+}
+
+/** What the inspector panel can do to the scene */
+export interface PhysicsInspectorApi {
+  /** Null once the body is gone */
+  readBody: (id: string) => PhysicsBodyState | null;
+  updateObject: (id: string, changes: PhysicsObjectChanges) => void;
+  deleteObject: (id: string) => void;
+  duplicateObject: (id: string) => void;
+  select: (id: string | null) => void;
+}
+
+export interface PhysicsModel {
+  id: string;
+  name: string;
+  url: string;
+  /** PNG data URL (null when it couldn't be rendered) */
+  thumbnail: string | null;
+}
+
+export type PhysicsJointType = "fixed" | "spherical" | "revolute" | "prismatic" | "rope";
+
+export type PhysicsJointAxis = "x" | "y" | "z";
+
+export interface PhysicsJoint {
+  id: string;
+  type: PhysicsJointType;
+  /** Object ids */
+  bodyA: string;
+  bodyB: string;
+  /** Attachment points in each body's local space */
+  anchorA: [number, number, number];
+  anchorB: [number, number, number];
+  /** Local frames (quaternions) a fixed joint keeps aligned */
+  frameA?: [number, number, number, number];
+  frameB?: [number, number, number, number];
+  /** Hinge or slide axis in local space (revolute, prismatic) */
+  axis?: [number, number, number];
+  /** Maximum distance between the anchors (rope) */
+  length?: number;
+}
+
+/** Live bodies and joints, with body state read back from Rapier */
+export interface PhysicsSceneSnapshot {
+  objects: PhysicsObject[];
+  joints: PhysicsJoint[];
+}
+
+/** A body without its runtime id (scene files and shared links) */
+export type SerializedPhysicsObject = Omit<PhysicsObject, "id">;
+
+/** A joint whose bodies are indices into the scene's object list */
+export type SerializedPhysicsJoint = Omit<PhysicsJoint, "id" | "bodyA" | "bodyB"> & {
+  bodyA: number;
+  bodyB: number;
+};
+
+export interface SerializedPhysicsScene {
+  objects: SerializedPhysicsObject[];
+  joints: SerializedPhysicsJoint[];
+}
+
+/** A named scene loaded from a preset file or saved by the user */
+export interface PhysicsPreset extends SerializedPhysicsScene {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+/** Active link tool: the next two bodies picked get joined */
+export interface PhysicsLinkTool {
+  type: PhysicsJointType;
+  axis: PhysicsJointAxis;
+}
+
+export type PhysicsForceFieldType = "attractor" | "repulsor" | "wind" | "vortex";
+
+/** Placed field that pushes bodies every step */
+export interface PhysicsForceField {
+  id: string;
+  type: PhysicsForceFieldType;
+  position: [number, number, number];
+  /** Acceleration at full effect (m/s²) */
+  strength: number;
+  radius: number;
+  /** Unit direction wind blows in */
+  direction: [number, number, number];
+}
+
+/** Clicking the ground places a field, or sets off a one-off explosion */
+export interface PhysicsForceTool {
+  type: PhysicsForceFieldType | "explosion";
+  strength: number;
+  radius: number;
 }
 
 export interface PhysicsSceneProps {
@@ -22,9 +146,37 @@ export interface PhysicsSceneProps {
   };
   maxObjects: number;
   onObjectCountChange: (count: number) => void;
-  spawnRef: RefObject<((type: PhysicsObjectType) => void) | null>;
+  /** Spawns a primitive, or a mesh body from a model URL */
+  spawnRef: RefObject<((type: PhysicsObjectType, model?: string) => void) | null>;
   resetRef: RefObject<(() => void) | null>;
-  loadPresetRef: RefObject<((preset: PresetType) => void) | null>;
+  /** Snapshot of every body with its live Rapier state */
+  captureSceneRef: RefObject<(() => PhysicsSceneSnapshot) | null>;
+  loadSceneRef: RefObject<((scene: SerializedPhysicsScene) => void) | null>;
+  /** Picking bodies links them instead of dragging (null when off) */
+  linkTool: PhysicsLinkTool | null;
+  clearJointsRef: RefObject<(() => void) | null>;
+  /** Clicking the ground uses the force tool instead of dragging (null when off) */
+  forceTool: PhysicsForceTool | null;
+  clearForceFieldsRef: RefObject<(() => void) | null>;
+  /** Material for newly spawned bodies */
+  spawnMaterial: PhysicsMaterialName;
+  /** Draw primitives as one InstancedMesh per type and material */
+  instanced: boolean;
+  /** Keep dropping random primitives from above the arena */
+  raining: boolean;
+  /** Play a synthesised sound for each impact */
+  soundEnabled: boolean;
+  /** Receives every impact, counted per second */
+  impactLogRef: RefObject<PhysicsImpactLog>;
+  /** Receives the selected body whenever it or the selection changes */
+  onSelectionChange: (object: PhysicsObject | null) => void;
+  inspectorRef: RefObject<PhysicsInspectorApi | null>;
+  /** Receives a frame every physics step while set */
+  recordingRef: RefObject<PhysicsRecording | null>;
+  playbackClockRef: RefObject<PlaybackClock>;
+  startPlaybackRef: RefObject<((recording: PhysicsRecording) => void) | null>;
+  /** Leaves playback; the bodies resume simulating from the shown frame */
+  stopPlaybackRef: RefObject<(() => void) | null>;
 }
 
 export interface DraggableBodyRef {
@@ -34,63 +186,101 @@ export interface DraggableBodyRef {
   initialPosition: [number, number, number];
 }
 
-// Color palette for physics objects based on velocity
+// Color palette for moving physics objects (at rest they show their own colour)
 export const velocityColors = {
   slow: "#60a5fa", // blue
   medium: "#4ade80", // green
   fast: "#f87171", // red
-  stationary: "#a78bfa", // purple (base color)
 };
 
-// Material presets
-export const materialPresets = {
-  glass: {
-    roughness: 0.15,
-    metalness: 0.2,
-    clearcoat: 0.8,
-    clearcoatRoughness: 0.2,
-    transmission: 0.2,
-    thickness: 0.5,
+// Body colour for its speed
+export function getVelocityColor(speed: number, restingColor: string): string {
+  if (speed < 0.5) return restingColor;
+  if (speed < 5) return velocityColors.slow;
+  if (speed < 15) return velocityColors.medium;
+  return velocityColors.fast;
+}
+
+// Physics materials: contact behaviour plus the matching look
+export interface PhysicsMaterial {
+  label: string;
+  friction: number;
+  /** Bounciness (0 = dead stop, 1 = perfectly elastic) */
+  restitution: number;
+  /** Mass per unit volume (water = 1) */
+  density: number;
+  /** meshPhysicalMaterial props */
+  visual: MeshPhysicalMaterialParameters;
+}
+
+export type PhysicsMaterialName = keyof typeof physicsMaterials;
+
+export const DEFAULT_PHYSICS_MATERIAL: PhysicsMaterialName = "glass";
+
+export const physicsMaterials = {
+  rubber: {
+    label: "Rubber",
+    friction: 0.9,
+    restitution: 0.85,
+    density: 1.1,
+    visual: {
+      roughness: 0.85,
+      metalness: 0,
+      clearcoat: 0.1,
+      clearcoatRoughness: 0.8,
+    },
   },
-  metal: {
-    roughness: 0.3,
-    metalness: 0.9,
-    clearcoat: 0.3,
-    clearcoatRoughness: 0.1,
+  ice: {
+    label: "Ice",
+    friction: 0.02,
+    restitution: 0.1,
+    density: 0.9,
+    visual: {
+      roughness: 0.05,
+      metalness: 0,
+      clearcoat: 1,
+      clearcoatRoughness: 0.05,
+      transmission: 0.6,
+      thickness: 0.8,
+      ior: 1.31,
+    },
   },
-};
-
-// Preset configurations
-export const presetConfigs = {
-  bowling: {
-    pins: [
-      // Back row (4 pins)
-      { position: [0, 0.5, -8] as [number, number, number] },
-      { position: [-0.8, 0.5, -8] as [number, number, number] },
-      { position: [0.8, 0.5, -8] as [number, number, number] },
-      { position: [-1.6, 0.5, -8] as [number, number, number] },
-      // Third row (3 pins)
-      { position: [-0.4, 0.5, -7.2] as [number, number, number] },
-      { position: [0.4, 0.5, -7.2] as [number, number, number] },
-      { position: [-1.2, 0.5, -7.2] as [number, number, number] },
-      // Second row (2 pins)
-      { position: [0, 0.5, -6.4] as [number, number, number] },
-      { position: [-0.8, 0.5, -6.4] as [number, number, number] },
-      // Front pin
-      { position: [-0.4, 0.5, -5.6] as [number, number, number] },
-    ],
-    ball: { position: [0, 0.8, 4] as [number, number, number] },
+  wood: {
+    label: "Wood",
+    friction: 0.6,
+    restitution: 0.3,
+    density: 0.6,
+    visual: {
+      roughness: 0.7,
+      metalness: 0,
+      clearcoat: 0.2,
+      clearcoatRoughness: 0.6,
+    },
   },
-  dominoes: {
-    count: 20,
-    spacing: 0.6,
-    startZ: -6,
-    curve: true,
+  steel: {
+    label: "Steel",
+    friction: 0.4,
+    restitution: 0.8,
+    density: 7.8,
+    visual: {
+      roughness: 0.3,
+      metalness: 0.9,
+      clearcoat: 0.3,
+      clearcoatRoughness: 0.1,
+    },
   },
-  jenga: {
-    layers: 8,
-    blocksPerLayer: 3,
-    blockSize: { width: 0.3, height: 0.15, depth: 0.9 },
-    startY: 0.075,
+  glass: {
+    label: "Glass",
+    friction: 0.5,
+    restitution: 0.5,
+    density: 2.5,
+    visual: {
+      roughness: 0.15,
+      metalness: 0.2,
+      clearcoat: 0.8,
+      clearcoatRoughness: 0.2,
+      transmission: 0.2,
+      thickness: 0.5,
+    },
   },
-};
+} satisfies Record<string, PhysicsMaterial>;
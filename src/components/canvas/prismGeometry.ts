@@ -0,0 +1,27 @@
+import * as THREE from "three";
+
+/**
+ * Triangular prism (extruded equilateral triangle), extruded from z = 0
+ * Shared by the centerpiece and the shader gallery's surface previews.
+ */
+export function createPrismGeometry() {
+  const shape = new THREE.Shape();
+  const size = 1;
+
+  // Equilateral triangle
+  shape.moveTo(0, size);
+  shape.lineTo(-size * 0.866, -size * 0.5);
+  shape.lineTo(size * 0.866, -size * 0.5);
+  shape.closePath();
+
+  const extrudeSettings = {
+    steps: 1,
+    depth: 1.5,
+    bevelEnabled: true,
+    bevelThickness: 0.05,
+    bevelSize: 0.05,
+    bevelSegments: 3,
+  };
+
+  return new THREE.ExtrudeGeometry(shape, extrudeSettings);
+}
@@ -0,0 +1,123 @@
+/**
+ * Audio analysis for audio-reactive shaders
+ *
+ * Turns AnalyserNode byte spectra into the values shaders consume:
+ * overall level, bass/mid/treble bands, a beat envelope from onset
+ * detection, and the raw spectrum (uploaded as the uSpectrum texture).
+ */
+
+export interface AudioAnalysisFrame {
+  /** Average of the whole spectrum (0-1) */
+  level: number;
+  bass: number;
+  mid: number;
+  treble: number;
+  /** True only on the frame an onset was detected */
+  onset: boolean;
+  /** 1 on an onset, decaying linearly to 0 */
+  beat: number;
+  /** Byte frequency data, one entry per analyser bin */
+  spectrum: Uint8Array<ArrayBuffer>;
+}
+
+export interface BeatDetector {
+  history: number[];
+  lastBeatTime: number;
+}
+
+// Band edges in Hz
+export const AUDIO_BANDS = {
+  bass: [20, 250],
+  mid: [250, 4000],
+  treble: [4000, 16000],
+} as const;
+
+export const AUDIO_FFT_SIZE = 1024;
+
+// Onset detection tuning: a beat is bass energy this much above its recent
+// average, no sooner than the cooldown after the previous one
+const BEAT_HISTORY_SIZE = 43; // ~0.7s at 60fps
+const BEAT_MIN_HISTORY = 10;
+const BEAT_THRESHOLD = 1.35;
+const BEAT_MIN_ENERGY = 0.15;
+const BEAT_COOLDOWN = 0.25; // seconds
+const BEAT_DECAY = 0.3; // seconds
+
+export function createAudioAnalysisFrame(binCount = AUDIO_FFT_SIZE / 2): AudioAnalysisFrame {
+  return {
+    level: 0,
+    bass: 0,
+    mid: 0,
+    treble: 0,
+    onset: false,
+    beat: 0,
+    spectrum: new Uint8Array(binCount),
+  };
+}
+
+export function resetAudioAnalysisFrame(frame: AudioAnalysisFrame) {
+  frame.level = 0;
+  frame.bass = 0;
+  frame.mid = 0;
+  frame.treble = 0;
+  frame.onset = false;
+  frame.beat = 0;
+  frame.spectrum.fill(0);
+}
+
+export function createBeatDetector(): BeatDetector {
+  return { history: [], lastBeatTime: -Infinity };
+}
+
+function bandAverage(
+  spectrum: Uint8Array,
+  binHz: number,
+  [low, high]: readonly [number, number]
+): number {
+  const start = Math.max(0, Math.floor(low / binHz));
+  const end = Math.min(spectrum.length - 1, Math.ceil(high / binHz));
+  if (end < start) return 0;
+
+  let sum = 0;
+  for (let i = start; i <= end; i++) sum += spectrum[i];
+  return sum / ((end - start + 1) * 255);
+}
+
+/**
+ * Update a frame from its (already filled) spectrum
+ * @param time - Current time in seconds, used for beat timing
+ */
+export function analyseAudioFrame(
+  frame: AudioAnalysisFrame,
+  detector: BeatDetector,
+  sampleRate: number,
+  time: number
+) {
+  const { spectrum } = frame;
+  // Each bin spans sampleRate / fftSize, and fftSize is twice the bin count
+  const binHz = sampleRate / (spectrum.length * 2);
+
+  let sum = 0;
+  for (let i = 0; i < spectrum.length; i++) sum += spectrum[i];
+  frame.level = sum / (spectrum.length * 255);
+
+  frame.bass = bandAverage(spectrum, binHz, AUDIO_BANDS.bass);
+  frame.mid = bandAverage(spectrum, binHz, AUDIO_BANDS.mid);
+  frame.treble = bandAverage(spectrum, binHz, AUDIO_BANDS.treble);
+
+  // Onset detection on bass energy against its rolling average
+  const { history } = detector;
+  const average = history.length > 0 ? history.reduce((a, b) => a + b, 0) / history.length : 0;
+
+  frame.onset =
+    history.length >= BEAT_MIN_HISTORY &&
+    frame.bass > BEAT_MIN_ENERGY &&
+    frame.bass > average * BEAT_THRESHOLD &&
+    time - detector.lastBeatTime > BEAT_COOLDOWN;
+
+  history.push(frame.bass);
+  if (history.length > BEAT_HISTORY_SIZE) history.shift();
+
+  if (frame.onset) detector.lastBeatTime = time;
+  frame.beat = Math.max(0, 1 - (time - detector.lastBeatTime) / BEAT_DECAY);
+}
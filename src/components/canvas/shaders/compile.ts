@@ -0,0 +1,114 @@
+/**
+ * Fragment shader validation for the live shader editor.
+ *
+ * Compiles GLSL on a small offscreen WebGL context before the source is
+ * handed to a ShaderMaterial, so a typo shows an error overlay instead of
+ * a black screen. The preamble mirrors what three.js prepends to a
+ * ShaderMaterial fragment, which keeps reported line numbers aligned with
+ * the source the user is editing. `#include` chunks are expanded first and
+ * errors inside them are reported on the include line.
+ */
+
+import { resolveShaderIncludes } from "./includes";
+
+export interface ShaderCompileError {
+  line: number | null;
+  message: string;
+}
+
+const WEBGL2_PREAMBLE = [
+  "#version 300 es",
+  "#define varying in",
+  "layout(location = 0) out highp vec4 pc_fragColor;",
+  "#define gl_FragColor pc_fragColor",
+  "#define texture2D texture",
+  "#define textureCube texture",
+  "precision highp float;",
+  "precision highp int;",
+  "uniform mat4 viewMatrix;",
+  "uniform vec3 cameraPosition;",
+  "uniform bool isOrthographic;",
+].join("\n");
+
+const WEBGL1_PREAMBLE = [
+  "precision highp float;",
+  "precision highp int;",
+  "uniform mat4 viewMatrix;",
+  "uniform vec3 cameraPosition;",
+  "uniform bool isOrthographic;",
+].join("\n");
+
+// ANGLE / Mesa style: "ERROR: 0:12: 'foo' : undeclared identifier"
+const ERROR_LINE_PATTERN = /^ERROR:\s*\d+:(\d+):\s*(.*)$/;
+
+let validationContext: WebGLRenderingContext | WebGL2RenderingContext | null = null;
+let validationContextFailed = false;
+
+function getValidationContext() {
+  if (validationContext || validationContextFailed) return validationContext;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = 1;
+  canvas.height = 1;
+  validationContext = canvas.getContext("webgl2") || canvas.getContext("webgl");
+  validationContextFailed = !validationContext;
+  return validationContext;
+}
+
+/**
+ * Parse a driver info log into editor-relative errors
+ */
+function parseShaderLog(log: string, lineOffset: number): ShaderCompileError[] {
+  const errors: ShaderCompileError[] = [];
+
+  for (const rawLine of log.split("\n")) {
+    const entry = rawLine.trim();
+    if (!entry) continue;
+
+    const match = ERROR_LINE_PATTERN.exec(entry);
+    if (match) {
+      const line = parseInt(match[1], 10) - lineOffset;
+      errors.push({ line: line > 0 ? line : null, message: match[2].trim() });
+    } else if (entry.startsWith("ERROR")) {
+      errors.push({ line: null, message: entry.replace(/^ERROR:\s*/, "") });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Compile a fragment shader and return its errors (empty when valid).
+ * Returns no errors when WebGL is unavailable so rendering can still try.
+ */
+export function compileFragmentShader(source: string): ShaderCompileError[] {
+  if (typeof document === "undefined") return [];
+
+  const gl = getValidationContext();
+  if (!gl) return [];
+
+  const isWebGL2 = typeof WebGL2RenderingContext !== "undefined" && gl instanceof WebGL2RenderingContext;
+  const preamble = isWebGL2 ? WEBGL2_PREAMBLE : WEBGL1_PREAMBLE;
+  const lineOffset = preamble.split("\n").length;
+
+  const shader = gl.createShader(gl.FRAGMENT_SHADER);
+  if (!shader) return [];
+
+  const resolved = resolveShaderIncludes(source);
+  gl.shaderSource(shader, `${preamble}\n${resolved.source}`);
+  gl.compileShader(shader);
+
+  let errors: ShaderCompileError[] = [];
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    errors = parseShaderLog(gl.getShaderInfoLog(shader) || "", lineOffset).map((error) => ({
+      ...error,
+      line: error.line === null ? null : (resolved.lineMap[error.line - 1] ?? null),
+    }));
+    if (errors.length === 0) {
+      errors.push({ line: null, message: "Shader failed to compile" });
+    }
+  }
+
+  gl.deleteShader(shader);
+  return errors;
+}
@@ -0,0 +1,105 @@
+import type { ShaderDefinition } from "../types";
+
+export const audioShader: ShaderDefinition = {
+  info: {
+    id: "audio",
+    name: "Audio Visualizer",
+    description: "Frequency bands, beat detection and live spectrum from a mic or audio file",
+    tags: ["audio", "reactive", "visualizer"],
+    audioReactive: true,
+  },
+  uniforms: [
+    {
+      name: "uSensitivity",
+      label: "Sensitivity",
+      type: "float",
+      default: 1,
+      min: 0,
+      max: 4,
+      step: 0.1,
+    },
+  ],
+  thumbnail: { speedScale: 0.5, mouse: [0.5, 0.5] },
+  fragment: `
+uniform float uTime;
+uniform vec2 uMouse;
+uniform vec3 uColor;
+uniform float uSpeed;
+uniform float uAudioLevel;
+uniform float uBass;
+uniform float uMid;
+uniform float uTreble;
+uniform float uBeat;
+uniform sampler2D uSpectrum;
+uniform float uSensitivity;
+varying vec2 vUv;
+
+#include <noise>
+
+float band(float value) {
+  return clamp(value * uSensitivity, 0.0, 1.0);
+}
+
+void main() {
+  float t = uTime * uSpeed * 0.5;
+  vec2 uv = vUv * 2.0 - 1.0;
+
+  // Audio-reactive parameters
+  float audio = band(uAudioLevel);
+  float bass = band(uBass);
+  float mid = band(uMid);
+  float treble = band(uTreble);
+  float bassBoost = bass * bass;
+
+  // Multiple expanding rings driven by the bass, widened by the mids
+  float d = length(uv);
+  float rings = 0.0;
+
+  for(int i = 0; i < 5; i++) {
+    float offset = float(i) * 0.2;
+    float radius = 0.2 + offset + bassBoost * 0.5;
+    float ringWidth = 0.02 + mid * 0.08;
+    float ring = smoothstep(radius, radius + ringWidth, d) -
+                 smoothstep(radius + ringWidth, radius + ringWidth * 2.0, d);
+    ring *= 1.0 - float(i) * 0.15;
+    rings += ring;
+  }
+
+  // Radial spectrum bars (mirrored left/right, low frequencies at the top)
+  float angle = atan(uv.x, uv.y);
+  float bin = abs(angle) / 3.14159;
+  float magnitude = texture2D(uSpectrum, vec2(bin * 0.6, 0.5)).r * uSensitivity;
+  float barMask = step(0.35, fract(bin * 48.0 + t * 0.1));
+  float inner = 0.3 + bassBoost * 0.2;
+  float bars = smoothstep(inner, inner + 0.02, d) *
+               (1.0 - smoothstep(inner + magnitude * 0.5, inner + magnitude * 0.5 + 0.02, d));
+  bars *= barMask;
+
+  // Center glow, flashing on detected beats
+  float centerGlow = exp(-d * (3.0 - audio * 2.0)) * (0.5 + audio * 0.5);
+  centerGlow += exp(-d * 6.0) * uBeat;
+
+  // High-frequency sparkle
+  vec2 cell = floor(vUv * 60.0);
+  float sparkle = step(0.985 - treble * 0.05, hash(cell + floor(t * 8.0))) * treble;
+
+  // Color mixing
+  vec3 col1 = uColor;
+  vec3 col2 = vec3(uColor.z, uColor.y * 1.2, uColor.x);
+
+  vec3 col = col1 * rings;
+  col += col2 * bars * 0.8;
+  col += mix(col1, col2, audio) * centerGlow;
+  col += vec3(1.0) * sparkle * 0.8;
+
+  // Pulsing background
+  vec3 bg = uColor * 0.1 * (0.5 + 0.5 * sin(t + d * 3.0));
+  col += bg * (1.0 - d);
+
+  // Audio-reactive brightness
+  col *= 0.7 + audio * 0.6 + uBeat * 0.2;
+
+  gl_FragColor = vec4(col, 1.0);
+}
+`,
+};
@@ -0,0 +1,73 @@
+import type { ShaderDefinition } from "../types";
+
+export const fractalShader: ShaderDefinition = {
+  info: {
+    id: "fractal",
+    name: "Fractal Noise",
+    description: "Multi-octave fractal Brownian motion turbulence",
+    tags: ["noise", "fractal", "organic"],
+    audioReactive: false,
+  },
+  uniforms: [
+    {
+      name: "uScale",
+      label: "Scale",
+      type: "float",
+      default: 3,
+      min: 1,
+      max: 10,
+      step: 0.5,
+    },
+    {
+      name: "uDrift",
+      label: "Drift",
+      type: "vec2",
+      default: [1, 1],
+      min: -2,
+      max: 2,
+      step: 0.1,
+    },
+  ],
+  thumbnail: { speedScale: 0.5, mouse: [0.5, 0.5] },
+  fragment: `
+uniform float uTime;
+uniform vec2 uMouse;
+uniform vec3 uColor;
+uniform float uSpeed;
+uniform float uScale;
+uniform vec2 uDrift;
+uniform float uZoom;
+varying vec2 vUv;
+
+#include <noise>
+
+void main() {
+  float t = uTime * uSpeed * 0.15;
+  vec2 uv = ((vUv - 0.5) / uZoom + 0.5) * uScale;
+
+  // Mouse influence on position
+  uv += (uMouse - 0.5) * 0.3;
+
+  // Animated FBM
+  float n1 = fbm(uv + uDrift * t, 6);
+  float n2 = fbm(uv + n1 + t * 0.5, 6);
+  float n3 = fbm(uv + n2 + t * 0.3, 6);
+
+  // Color layers
+  vec3 col1 = uColor;
+  vec3 col2 = vec3(uColor.z * 1.2, uColor.x * 0.8, uColor.y);
+  vec3 col3 = vec3(uColor.y, uColor.z * 1.1, uColor.x * 0.9);
+
+  vec3 col = mix(col1, col2, n1);
+  col = mix(col, col3, n2 * 0.5);
+
+  // Add brightness variations
+  col *= 0.6 + 0.4 * n3;
+
+  // Subtle glow in bright areas
+  col += uColor * pow(n3, 3.0) * 0.5;
+
+  gl_FragColor = vec4(col, 1.0);
+}
+`,
+};
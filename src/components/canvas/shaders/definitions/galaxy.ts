@@ -0,0 +1,103 @@
+import type { ShaderDefinition } from "../types";
+
+export const galaxyShader: ShaderDefinition = {
+  info: {
+    id: "galaxy",
+    name: "Cosmic Galaxy",
+    description: "Procedural galaxy with spiral arms and star particles",
+    tags: ["space", "stars", "cosmic"],
+    audioReactive: false,
+  },
+  uniforms: [
+    {
+      name: "uTwist",
+      label: "Twist",
+      type: "float",
+      default: 4,
+      min: 0,
+      max: 12,
+      step: 0.5,
+    },
+    {
+      name: "uArms",
+      label: "Arms",
+      type: "int",
+      default: 2,
+      min: 1,
+      max: 6,
+    },
+  ],
+  thumbnail: { speedScale: 0.5, mouse: [0.5, 0.5] },
+  fragment: `
+uniform float uTime;
+uniform vec2 uMouse;
+uniform vec3 uColor;
+uniform float uSpeed;
+uniform float uTwist;
+uniform int uArms;
+uniform float uZoom;
+uniform vec2 uTilt;
+varying vec2 vUv;
+
+#include <noise>
+
+void main() {
+  float t = uTime * uSpeed * 0.1;
+  vec2 uv = vUv * 2.0 - 1.0;
+
+  // Mouse and device tilt shift the galaxy center; pinch zooms in
+  vec2 center = (uMouse - 0.5) * 0.3 + uTilt * 0.3;
+  uv = (uv - center) / uZoom;
+
+  float dist = length(uv);
+  float angle = atan(uv.y, uv.x);
+
+  // Spiral arms
+  float arms = float(uArms);
+  float twist = dist * uTwist - t * 2.0;
+  float spiral = sin(angle * arms + twist) * 0.5 + 0.5;
+  spiral = pow(spiral, 2.0);
+
+  // Arm density falloff
+  spiral *= exp(-dist * 1.5);
+
+  // Core glow
+  float core = exp(-dist * 4.0);
+
+  // Star field
+  vec2 starUv = vUv * 80.0;
+  float stars = hash(floor(starUv));
+  stars = step(0.97, stars);
+  stars *= (0.5 + 0.5 * sin(t * 10.0 + hash(floor(starUv)) * 100.0));
+
+  // Larger stars
+  vec2 bigStarUv = vUv * 30.0;
+  float bigStars = hash(floor(bigStarUv));
+  bigStars = step(0.985, bigStars);
+  bigStars *= (0.7 + 0.3 * sin(t * 5.0 + hash(floor(bigStarUv)) * 50.0));
+
+  // Color composition
+  vec3 coreColor = vec3(1.0, 0.95, 0.8);
+  vec3 armColor = uColor;
+  vec3 outerColor = vec3(uColor.z * 0.5, uColor.x * 0.3, uColor.y * 0.8);
+
+  vec3 col = vec3(0.0);
+  col += coreColor * core * 0.8;
+  col += armColor * spiral * 0.9;
+  col += outerColor * (1.0 - exp(-dist * 0.5)) * 0.3;
+  col += vec3(1.0) * stars * 0.6;
+  col += vec3(1.0, 0.9, 0.8) * bigStars * 0.8;
+
+  // Dust lanes (dark regions)
+  float dust = noise(uv * 5.0 + t * 0.1);
+  dust = smoothstep(0.3, 0.7, dust);
+  col *= 0.7 + 0.3 * dust;
+
+  // Vignette
+  float vignette = 1.0 - dist * 0.3;
+  col *= vignette;
+
+  gl_FragColor = vec4(col, 1.0);
+}
+`,
+};
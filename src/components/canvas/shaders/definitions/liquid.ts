@@ -0,0 +1,112 @@
+import type { ShaderDefinition } from "../types";
+
+export const liquidShader: ShaderDefinition = {
+  info: {
+    id: "liquid",
+    name: "Liquid Metal",
+    description: "Smooth liquid metal simulation with iridescent reflections",
+    tags: ["metallic", "liquid", "iridescent"],
+    audioReactive: false,
+  },
+  uniforms: [
+    {
+      name: "uRippleStrength",
+      label: "Ripple Strength",
+      type: "float",
+      default: 0.05,
+      min: 0,
+      max: 0.2,
+      step: 0.005,
+    },
+    {
+      name: "uHighlightColor",
+      label: "Highlight",
+      type: "color",
+      default: "#ffffff",
+    },
+  ],
+  thumbnail: { speedScale: 0.5, mouse: [0.5, 0.5] },
+  displacement: `
+uniform float uTime;
+uniform float uSpeed;
+uniform vec2 uMouse;
+uniform float uRippleStrength;
+
+vec3 displace(vec3 position, vec3 normal, vec2 uv) {
+  float t = uTime * uSpeed * 0.3;
+  float mouseDist = length(uv - uMouse);
+  float ripple = sin(mouseDist * 30.0 - t * 5.0) * exp(-mouseDist * 4.0);
+  float swell = sin(uv.x * 12.0 + t * 2.0) * sin(uv.y * 12.0 + t * 1.5);
+  return position + normal * (ripple * uRippleStrength + swell * 0.02);
+}
+`,
+  fragment: `
+uniform float uTime;
+uniform vec2 uMouse;
+uniform vec3 uColor;
+uniform float uSpeed;
+uniform float uRippleStrength;
+uniform vec3 uHighlightColor;
+uniform vec2 uTilt;
+varying vec2 vUv;
+
+#include <noise>
+
+void main() {
+  float t = uTime * uSpeed * 0.3;
+  vec2 uv = vUv;
+
+  // Mouse ripple effect
+  float mouseDist = length(uv - uMouse);
+  float ripple = sin(mouseDist * 30.0 - t * 5.0) * exp(-mouseDist * 4.0);
+
+  // Flowing distortion
+  vec2 distort = vec2(
+    noise(uv * 3.0 + t * 0.5),
+    noise(uv * 3.0 + vec2(100.0) + t * 0.5)
+  );
+  distort = (distort - 0.5) * 0.15;
+
+  vec2 finalUv = uv + distort + vec2(ripple) * uRippleStrength;
+
+  // Liquid metal normals (fake)
+  float nx = noise(finalUv * 8.0 + t) - noise(finalUv * 8.0 + vec2(0.01, 0.0) + t);
+  float ny = noise(finalUv * 8.0 + t) - noise(finalUv * 8.0 + vec2(0.0, 0.01) + t);
+  vec3 normal = normalize(vec3(nx * 5.0, ny * 5.0, 1.0));
+
+  // Environment reflection (fake)
+  // Tilting the device moves the reflections
+  vec3 viewDir = normalize(vec3(uTilt * 0.5, 1.0));
+  vec3 reflectDir = reflect(-viewDir, normal);
+
+  // Iridescent color based on viewing angle and position
+  float fresnel = pow(1.0 - max(dot(normal, viewDir), 0.0), 3.0);
+
+  vec3 iridescence = 0.5 + 0.5 * cos(
+    t * 0.5 + finalUv.xyx * 6.0 + vec3(0.0, 2.094, 4.188)
+  );
+
+  // Base metallic color
+  vec3 metalBase = uColor * 0.4;
+
+  // Combine
+  vec3 col = metalBase;
+  col += iridescence * fresnel * 0.7;
+  col += uColor * pow(max(reflectDir.z, 0.0), 8.0) * 0.5;
+
+  // Highlight from "light"
+  vec3 lightDir = normalize(vec3(0.5, 0.5, 1.0));
+  float spec = pow(max(dot(reflect(-lightDir, normal), viewDir), 0.0), 32.0);
+  col += uHighlightColor * spec * 0.6;
+
+  // Ripple highlight
+  col += uColor * ripple * 0.5;
+
+  // Ambient occlusion in crevices
+  float ao = 0.8 + 0.2 * noise(finalUv * 15.0);
+  col *= ao;
+
+  gl_FragColor = vec4(col, 1.0);
+}
+`,
+};
@@ -0,0 +1,73 @@
+import type { ShaderDefinition } from "../types";
+
+export const plasmaShader: ShaderDefinition = {
+  info: {
+    id: "plasma",
+    name: "Plasma Wave",
+    description: "Classic plasma effect with flowing organic patterns",
+    tags: ["classic", "organic", "colorful"],
+    audioReactive: false,
+  },
+  uniforms: [
+    {
+      name: "uScale",
+      label: "Scale",
+      type: "float",
+      default: 8,
+      min: 2,
+      max: 20,
+      step: 0.5,
+    },
+  ],
+  thumbnail: { speedScale: 0.5, mouse: [0.5, 0.5] },
+  displacement: `
+uniform float uTime;
+uniform float uSpeed;
+uniform float uScale;
+
+vec3 displace(vec3 position, vec3 normal, vec2 uv) {
+  vec2 p = uv * uScale;
+  float t = uTime * uSpeed * 0.5;
+  float v = sin(p.x + t * 0.7) + sin(p.y + t * 0.8);
+  return position + normal * v * 0.04;
+}
+`,
+  fragment: `
+uniform float uTime;
+uniform vec2 uMouse;
+uniform vec3 uColor;
+uniform float uSpeed;
+uniform float uScale;
+uniform float uZoom;
+varying vec2 vUv;
+
+void main() {
+  vec2 uv = ((vUv - 0.5) / uZoom + 0.5) * uScale;
+  float t = uTime * uSpeed * 0.5;
+
+  float v = sin(uv.x + t * 0.7);
+  v += sin(uv.y + t * 0.8);
+  v += sin(uv.x + uv.y + t);
+  v += sin(sqrt(uv.x * uv.x + uv.y * uv.y) + t);
+
+  // Mouse influence
+  vec2 mouse = uMouse * uScale;
+  float mouseInfluence = sin(length(uv - mouse) * 2.0 - t * 2.0) * 0.5;
+  v += mouseInfluence;
+
+  // Color cycling
+  vec3 col1 = uColor;
+  vec3 col2 = vec3(uColor.z, uColor.x, uColor.y);
+  vec3 col3 = vec3(uColor.y, uColor.z, uColor.x);
+
+  float wave = v * 0.25;
+  vec3 finalColor = mix(col1, col2, 0.5 + 0.5 * sin(wave * 3.14159));
+  finalColor = mix(finalColor, col3, 0.5 + 0.5 * cos(wave * 3.14159 + 1.0));
+
+  // Brightness variation
+  finalColor *= 0.7 + 0.3 * sin(v * 0.5);
+
+  gl_FragColor = vec4(finalColor, 1.0);
+}
+`,
+};
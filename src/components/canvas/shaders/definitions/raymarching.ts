@@ -0,0 +1,112 @@
+import type { ShaderDefinition } from "../types";
+
+export const raymarchingShader: ShaderDefinition = {
+  info: {
+    id: "raymarching",
+    name: "Ray Marching Sphere",
+    description: "Real-time ray marching with soft shadows and reflections",
+    tags: ["3d", "raymarching", "shadows"],
+    audioReactive: false,
+  },
+  uniforms: [
+    {
+      name: "uShininess",
+      label: "Shininess",
+      type: "float",
+      default: 32,
+      min: 2,
+      max: 128,
+      step: 1,
+    },
+  ],
+  thumbnail: { speedScale: 0.5, mouse: [0.5, 0.5] },
+  fragment: `
+uniform float uTime;
+uniform vec2 uMouse;
+uniform vec3 uColor;
+uniform float uSpeed;
+uniform float uShininess;
+uniform float uZoom;
+uniform vec2 uTilt;
+varying vec2 vUv;
+
+#include <sdf>
+
+float map(vec3 p) {
+  float t = uTime * uSpeed * 0.3;
+
+  // Animated sphere
+  vec3 spherePos = vec3(sin(t) * 0.5, cos(t * 0.7) * 0.3, 0.0);
+  float sphere = sdSphere(p - spherePos, 0.5 + sin(t * 2.0) * 0.1);
+
+  // Morphing between sphere and box
+  float box = sdBox(p, vec3(0.4));
+  float morph = mix(sphere, box, 0.5 + 0.5 * sin(t * 0.5));
+
+  return morph;
+}
+
+vec3 getNormal(vec3 p) {
+  vec2 e = vec2(0.001, 0.0);
+  return normalize(vec3(
+    map(p + e.xyy) - map(p - e.xyy),
+    map(p + e.yxy) - map(p - e.yxy),
+    map(p + e.yyx) - map(p - e.yyx)
+  ));
+}
+
+void main() {
+  vec2 uv = vUv * 2.0 - 1.0;
+  uv.x *= 1.0; // Aspect correction could go here
+
+  // Camera setup with mouse / tilt orbit and pinch dolly
+  float orbit = uMouse.x * 6.28 + uTilt.x;
+  float camDistance = 3.0 / uZoom;
+  vec3 ro = vec3(
+    sin(orbit) * camDistance,
+    uMouse.y * 2.0 - 1.0 + uTilt.y,
+    cos(orbit) * camDistance
+  );
+  vec3 target = vec3(0.0);
+  vec3 forward = normalize(target - ro);
+  vec3 right = normalize(cross(vec3(0.0, 1.0, 0.0), forward));
+  vec3 up = cross(forward, right);
+  vec3 rd = normalize(uv.x * right + uv.y * up + 1.5 * forward);
+
+  // Ray march
+  float t = 0.0;
+  vec3 col = vec3(0.02, 0.02, 0.05);
+
+  for(int i = 0; i < 64; i++) {
+    vec3 p = ro + rd * t;
+    float d = map(p);
+    if(d < 0.001) {
+      vec3 n = getNormal(p);
+
+      // Lighting
+      vec3 lightDir = normalize(vec3(1.0, 1.0, -1.0));
+      float diff = max(dot(n, lightDir), 0.0);
+      float spec = pow(max(dot(reflect(-lightDir, n), -rd), 0.0), uShininess);
+
+      // Fresnel rim
+      float fresnel = pow(1.0 - max(dot(n, -rd), 0.0), 3.0);
+
+      col = uColor * diff * 0.8;
+      col += vec3(1.0) * spec * 0.5;
+      col += uColor * fresnel * 0.3;
+      col += vec3(0.1, 0.05, 0.15) * 0.2; // Ambient
+
+      break;
+    }
+    if(t > 10.0) break;
+    t += d;
+  }
+
+  // Vignette
+  float vignette = 1.0 - length(vUv - 0.5) * 0.8;
+  col *= vignette;
+
+  gl_FragColor = vec4(col, 1.0);
+}
+`,
+};
@@ -0,0 +1,104 @@
+import type { ShaderDefinition } from "../types";
+
+export const reactionShader: ShaderDefinition = {
+  info: {
+    id: "reaction",
+    name: "Reaction Diffusion",
+    description: "Gray-Scott reaction diffusion evolving in a feedback buffer; the cursor feeds it",
+    tags: ["simulation", "feedback", "organic"],
+    audioReactive: false,
+  },
+  uniforms: [
+    {
+      name: "uFeed",
+      label: "Feed Rate",
+      type: "float",
+      default: 0.037,
+      min: 0.01,
+      max: 0.1,
+      step: 0.001,
+    },
+    {
+      name: "uKill",
+      label: "Kill Rate",
+      type: "float",
+      default: 0.06,
+      min: 0.045,
+      max: 0.07,
+      step: 0.001,
+    },
+  ],
+  thumbnail: { speedScale: 1, mouse: [0.5, 0.5] },
+  buffers: [
+    {
+      id: "A",
+      scale: 0.5,
+      iterations: 8,
+      fragment: `
+uniform sampler2D uPrevFrame;
+uniform vec2 uPassResolution;
+uniform vec2 uMouse;
+uniform float uSpeed;
+uniform float uFeed;
+uniform float uKill;
+uniform int uFrame;
+varying vec2 vUv;
+
+#include <noise>
+
+void main() {
+  // Seed: chemical A everywhere, scattered blobs of B
+  if (uFrame == 0) {
+    vec2 cell = floor(vUv * 24.0);
+    float seed = step(0.85, hash(cell)) * step(length(fract(vUv * 24.0) - 0.5), 0.3);
+    gl_FragColor = vec4(1.0, seed, 0.0, 1.0);
+    return;
+  }
+
+  vec2 texel = 1.0 / uPassResolution;
+  vec2 state = texture2D(uPrevFrame, vUv).xy;
+
+  // 3x3 Laplacian
+  vec2 laplacian = -state;
+  laplacian += 0.2 * texture2D(uPrevFrame, vUv + vec2(texel.x, 0.0)).xy;
+  laplacian += 0.2 * texture2D(uPrevFrame, vUv - vec2(texel.x, 0.0)).xy;
+  laplacian += 0.2 * texture2D(uPrevFrame, vUv + vec2(0.0, texel.y)).xy;
+  laplacian += 0.2 * texture2D(uPrevFrame, vUv - vec2(0.0, texel.y)).xy;
+  laplacian += 0.05 * texture2D(uPrevFrame, vUv + texel).xy;
+  laplacian += 0.05 * texture2D(uPrevFrame, vUv - texel).xy;
+  laplacian += 0.05 * texture2D(uPrevFrame, vUv + vec2(texel.x, -texel.y)).xy;
+  laplacian += 0.05 * texture2D(uPrevFrame, vUv + vec2(-texel.x, texel.y)).xy;
+
+  float a = state.x;
+  float b = state.y;
+  float reaction = a * b * b;
+  float dt = clamp(uSpeed, 0.0, 1.0);
+
+  a += (1.0 * laplacian.x - reaction + uFeed * (1.0 - a)) * dt;
+  b += (0.5 * laplacian.y + reaction - (uKill + uFeed) * b) * dt;
+
+  // Cursor injects B
+  b += smoothstep(0.03, 0.0, distance(vUv, uMouse)) * 0.5;
+
+  gl_FragColor = vec4(clamp(a, 0.0, 1.0), clamp(b, 0.0, 1.0), 0.0, 1.0);
+}
+`,
+    },
+  ],
+  fragment: `
+uniform sampler2D uBufferA;
+uniform vec3 uColor;
+varying vec2 vUv;
+
+void main() {
+  vec2 state = texture2D(uBufferA, vUv).xy;
+  float b = smoothstep(0.1, 0.4, state.y);
+
+  vec3 background = vec3(0.02, 0.02, 0.05);
+  vec3 color = mix(background, uColor, b);
+  color += pow(b, 3.0) * 0.4;
+
+  gl_FragColor = vec4(color, 1.0);
+}
+`,
+};
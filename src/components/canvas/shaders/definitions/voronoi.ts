@@ -0,0 +1,128 @@
+import type { ShaderDefinition } from "../types";
+
+export const voronoiShader: ShaderDefinition = {
+  info: {
+    id: "voronoi",
+    name: "Voronoi Cells",
+    description: "Dynamic Voronoi diagram with animated cell boundaries",
+    tags: ["geometric", "procedural", "cells"],
+    audioReactive: false,
+  },
+  uniforms: [
+    {
+      name: "uCellDensity",
+      label: "Cell Density",
+      type: "float",
+      default: 6,
+      min: 2,
+      max: 16,
+      step: 0.5,
+    },
+    {
+      name: "uEdgeWidth",
+      label: "Edge Width",
+      type: "float",
+      default: 0.1,
+      min: 0.01,
+      max: 0.4,
+      step: 0.01,
+    },
+    {
+      name: "uDistanceMetric",
+      label: "Distance",
+      type: "int",
+      default: 0,
+      min: 0,
+      max: 2,
+      options: [
+        { label: "Euclidean", value: 0 },
+        { label: "Manhattan", value: 1 },
+        { label: "Chebyshev", value: 2 },
+      ],
+    },
+    {
+      name: "uShowEdges",
+      label: "Edges",
+      type: "bool",
+      default: true,
+    },
+  ],
+  thumbnail: { speedScale: 0.5, mouse: [0.5, 0.5] },
+  fragment: `
+uniform float uTime;
+uniform vec2 uMouse;
+uniform vec3 uColor;
+uniform float uSpeed;
+uniform float uCellDensity;
+uniform float uEdgeWidth;
+uniform int uDistanceMetric;
+uniform bool uShowEdges;
+uniform float uZoom;
+varying vec2 vUv;
+
+#include <noise>
+
+float distanceMetric(vec2 d) {
+  if(uDistanceMetric == 1) return abs(d.x) + abs(d.y);
+  if(uDistanceMetric == 2) return max(abs(d.x), abs(d.y));
+  return length(d);
+}
+
+void main() {
+  float t = uTime * uSpeed * 0.3;
+  vec2 uv = ((vUv - 0.5) / uZoom + 0.5) * uCellDensity;
+
+  // Add mouse influence to UV
+  uv += (uMouse - 0.5) * 0.5;
+
+  vec2 i = floor(uv);
+  vec2 f = fract(uv);
+
+  float minDist = 1.0;
+  float secondMinDist = 1.0;
+  vec2 minPoint = vec2(0.0);
+
+  for(int y = -1; y <= 1; y++) {
+    for(int x = -1; x <= 1; x++) {
+      vec2 neighbor = vec2(float(x), float(y));
+      vec2 point = hash2(i + neighbor);
+
+      // Animate points
+      point = 0.5 + 0.5 * sin(t + 6.28318 * point);
+
+      vec2 diff = neighbor + point - f;
+      float d = distanceMetric(diff);
+
+      if(d < minDist) {
+        secondMinDist = minDist;
+        minDist = d;
+        minPoint = point;
+      } else if(d < secondMinDist) {
+        secondMinDist = d;
+      }
+    }
+  }
+
+  // Cell coloring
+  vec3 col = uColor * (1.0 - minDist);
+
+  // Edge detection
+  float edge = secondMinDist - minDist;
+  edge = smoothstep(0.0, uEdgeWidth, edge);
+
+  // Gradient based on point position
+  vec3 col2 = vec3(uColor.z, uColor.y, uColor.x);
+  col = mix(col, col2, minPoint.x);
+
+  // Add bright edges
+  if(uShowEdges) {
+    col = mix(vec3(1.0), col, edge);
+  }
+
+  // Pulsing glow
+  col += uColor * (1.0 - minDist) * (0.5 + 0.5 * sin(t * 2.0)) * 0.3;
+
+  gl_FragColor = vec4(col, 1.0);
+}
+`,
+};
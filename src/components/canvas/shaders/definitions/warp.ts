@@ -0,0 +1,94 @@
+import type { ShaderDefinition } from "../types";
+
+export const warpShader: ShaderDefinition = {
+  info: {
+    id: "warp",
+    name: "Domain Warping",
+    description: "Recursive domain warping creating marble-like patterns",
+    tags: ["warp", "marble", "procedural"],
+    audioReactive: false,
+  },
+  uniforms: [
+    {
+      name: "uWarpStrength",
+      label: "Warp Strength",
+      type: "float",
+      default: 2,
+      min: 0,
+      max: 5,
+      step: 0.1,
+    },
+    {
+      name: "uOctaves",
+      label: "Octaves",
+      type: "int",
+      default: 5,
+      min: 1,
+      max: 8,
+    },
+  ],
+  thumbnail: { speedScale: 0.5, mouse: [0.5, 0.5] },
+  displacement: `
+uniform float uTime;
+uniform float uSpeed;
+uniform float uWarpStrength;
+
+vec3 displace(vec3 position, vec3 normal, vec2 uv) {
+  float t = uTime * uSpeed * 0.1;
+  vec2 q = vec2(sin(uv.y * 6.0 + t * 3.0), sin(uv.x * 5.0 - t * 2.0));
+  float v = sin((uv.x + q.x * 0.2) * 9.0) * sin((uv.y + q.y * 0.2) * 7.0 + t);
+  return position + normal * v * uWarpStrength * 0.03;
+}
+`,
+  fragment: `
+uniform float uTime;
+uniform vec2 uMouse;
+uniform vec3 uColor;
+uniform float uSpeed;
+uniform float uWarpStrength;
+uniform int uOctaves;
+varying vec2 vUv;
+
+#include <noise>
+
+void main() {
+  float t = uTime * uSpeed * 0.1;
+  vec2 uv = vUv;
+
+  // Mouse-influenced warping center
+  vec2 warpCenter = mix(vec2(0.5), uMouse, 0.3);
+
+  // Domain warping
+  vec2 q = vec2(
+    fbm(uv + t * 0.3, uOctaves),
+    fbm(uv + vec2(1.0), uOctaves)
+  );
+
+  vec2 r = vec2(
+    fbm(uv + q * uWarpStrength + vec2(1.7, 9.2) + t * 0.2, uOctaves),
+    fbm(uv + q * uWarpStrength + vec2(8.3, 2.8) + t * 0.15, uOctaves)
+  );
+
+  // Distance from warp center
+  float dist = length(uv - warpCenter);
+  r *= 1.0 + dist * 0.5;
+
+  float f = fbm(uv + r * uWarpStrength, uOctaves);
+
+  // Color mapping
+  vec3 col1 = vec3(0.05, 0.02, 0.1);
+  vec3 col2 = uColor * 0.6;
+  vec3 col3 = uColor;
+  vec3 col4 = vec3(1.0, 0.9, 0.95);
+
+  vec3 col = mix(col1, col2, clamp(f * f * 2.0, 0.0, 1.0));
+  col = mix(col, col3, clamp(length(q) * 0.5, 0.0, 1.0));
+  col = mix(col, col4, clamp(pow(length(r), 2.0) * 0.3, 0.0, 1.0));
+
+  // Add subtle glow
+  col += uColor * pow(f, 4.0) * 0.4;
+
+  gl_FragColor = vec4(col, 1.0);
+}
+`,
+};
@@ -0,0 +1,189 @@
+/**
+ * Offscreen shader export
+ *
+ * Renders the live gallery material into a render target at an arbitrary
+ * resolution. Image sequences drive uTime from the frame index at a fixed
+ * timestep instead of the R3F clock, so the same settings always produce
+ * the same frames.
+ *
+ * Feedback shaders: stills sample the buffers as they are on screen, while
+ * sequences run their own copy of the buffers from frame 0 at the export
+ * resolution, leaving the live simulation untouched.
+ */
+
+import * as THREE from "three";
+import { downloadBlob } from "@/lib/download";
+import { createZip, type ZipEntry } from "@/lib/zip";
+import {
+  bindFeedbackOutputs,
+  cloneFeedbackPipeline,
+  disposeFeedbackPipeline,
+  getFeedbackPipeline,
+  renderFeedbackPipeline,
+  resizeFeedbackPipeline,
+} from "./feedback";
+
+export type ShaderExportMode = "png" | "sequence";
+
+export interface ShaderExportOptions {
+  mode: ShaderExportMode;
+  width: number;
+  height: number;
+  /** Sequence only */
+  frameCount: number;
+  /** Sequence only: uTime advances by 1 / fps per frame */
+  fps: number;
+}
+
+export const EXPORT_RESOLUTIONS = [
+  { label: "1080p", width: 1920, height: 1080 },
+  { label: "1440p", width: 2560, height: 1440 },
+  { label: "4K", width: 3840, height: 2160 },
+  { label: "Square 2K", width: 2048, height: 2048 },
+] as const;
+
+interface ExportContext {
+  fileBaseName: string;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error("Failed to encode PNG"));
+    }, "image/png");
+  });
+}
+
+/**
+ * Render frames of a material offscreen and return them as PNG blobs
+ */
+export async function renderShaderFrames(
+  gl: THREE.WebGLRenderer,
+  material: THREE.ShaderMaterial,
+  frameTimes: number[],
+  width: number,
+  height: number,
+  onFrame?: (completed: number) => void,
+  simulateBuffers = false
+): Promise<Blob[]> {
+  const target = new THREE.WebGLRenderTarget(width, height);
+  const geometry = new THREE.PlaneGeometry(2, 2);
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.position.z = -0.5;
+  const scene = new THREE.Scene();
+  scene.add(mesh);
+  const camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+
+  // 2D canvas for flipping pixels (WebGL rows are bottom-up) and PNG encoding
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("2D canvas unavailable");
+
+  const pixels = new Uint8Array(width * height * 4);
+  const image = context.createImageData(width, height);
+  const rowSize = width * 4;
+
+  const { uTime, uFrame, uResolution } = material.uniforms;
+  const previousTime = uTime.value;
+  const previousFrame = uFrame.value;
+  const previousResolution = (uResolution.value as THREE.Vector2).clone();
+  const previousTarget = gl.getRenderTarget();
+
+  const livePipeline = getFeedbackPipeline(material);
+  const pipeline =
+    simulateBuffers && livePipeline ? cloneFeedbackPipeline(livePipeline, material.uniforms) : null;
+
+  const blobs: Blob[] = [];
+
+  try {
+    if (pipeline) resizeFeedbackPipeline(pipeline, width, height);
+
+    for (let i = 0; i < frameTimes.length; i++) {
+      // Set every frame: the live view may render while a frame is encoding
+      (uResolution.value as THREE.Vector2).set(width, height);
+      uTime.value = frameTimes[i];
+      if (pipeline) {
+        uFrame.value = i;
+        renderFeedbackPipeline(gl, pipeline, material.uniforms);
+      }
+      gl.setRenderTarget(target);
+      gl.render(scene, camera);
+      gl.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+      gl.setRenderTarget(previousTarget);
+
+      for (let y = 0; y < height; y++) {
+        const sourceStart = (height - y - 1) * rowSize;
+        image.data.set(pixels.subarray(sourceStart, sourceStart + rowSize), y * rowSize);
+      }
+      context.putImageData(image, 0, 0);
+
+      // Encoding yields to the event loop, so the UI can show progress
+      blobs.push(await canvasToBlob(canvas));
+      onFrame?.(i + 1);
+    }
+  } finally {
+    uTime.value = previousTime;
+    (uResolution.value as THREE.Vector2).copy(previousResolution);
+    if (pipeline && livePipeline) {
+      uFrame.value = previousFrame;
+      bindFeedbackOutputs(livePipeline, material.uniforms);
+      disposeFeedbackPipeline(pipeline);
+    }
+    gl.setRenderTarget(previousTarget);
+    target.dispose();
+    geometry.dispose();
+  }
+
+  return blobs;
+}
+
+/**
+ * Export a still PNG (at the current time) or a zipped frame sequence
+ */
+export async function exportShader(
+  gl: THREE.WebGLRenderer,
+  material: THREE.ShaderMaterial,
+  options: ShaderExportOptions,
+  { fileBaseName, onProgress }: ExportContext
+) {
+  const { width, height } = options;
+
+  if (options.mode === "png") {
+    const [blob] = await renderShaderFrames(
+      gl,
+      material,
+      [material.uniforms.uTime.value],
+      width,
+      height,
+      (completed) => onProgress?.(completed, 1)
+    );
+    downloadBlob(blob, `${fileBaseName}-${width}x${height}.png`);
+    return;
+  }
+
+  const frameTimes = Array.from({ length: options.frameCount }, (_, i) => i / options.fps);
+  const blobs = await renderShaderFrames(
+    gl,
+    material,
+    frameTimes,
+    width,
+    height,
+    (completed) => onProgress?.(completed, frameTimes.length),
+    true
+  );
+
+  const digits = String(frameTimes.length).length;
+  const entries: ZipEntry[] = blobs.map((blob, i) => ({
+    name: `${fileBaseName}_${String(i).padStart(Math.max(digits, 4), "0")}.png`,
+    data: blob,
+  }));
+
+  downloadBlob(
+    await createZip(entries),
+    `${fileBaseName}-${width}x${height}-${options.fps}fps.zip`
+  );
+}
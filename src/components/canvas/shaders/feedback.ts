@@ -0,0 +1,202 @@
+/**
+ * Multi-pass feedback buffers
+ *
+ * Shaders that declare `buffers` get one ping-pong render target pair per
+ * buffer. Each frame every buffer pass reads its previous output
+ * (uPrevFrame), writes the other target, then swaps. Buffer passes share
+ * the image pass's uniform objects, so time, mouse and custom uniforms
+ * stay in sync without extra bookkeeping.
+ */
+
+import * as THREE from "three";
+import { vertexShader, bufferUniformName, type ShaderUniforms } from "./material";
+import { expandShaderIncludes } from "./includes";
+import type { ShaderDefinition } from "./types";
+
+export interface FeedbackPass {
+  id: string;
+  material: THREE.ShaderMaterial;
+  targets: [THREE.WebGLRenderTarget, THREE.WebGLRenderTarget];
+  /** Index of the target holding the latest frame */
+  readIndex: 0 | 1;
+  scale: number;
+  iterations: number;
+}
+
+export interface FeedbackPipeline {
+  passes: FeedbackPass[];
+  scene: THREE.Scene;
+  camera: THREE.OrthographicCamera;
+  mesh: THREE.Mesh;
+  width: number;
+  height: number;
+}
+
+function createTarget(width: number, height: number) {
+  return new THREE.WebGLRenderTarget(width, height, {
+    type: THREE.HalfFloatType,
+    minFilter: THREE.LinearFilter,
+    magFilter: THREE.LinearFilter,
+    depthBuffer: false,
+  });
+}
+
+/**
+ * Build the buffer passes for a definition (null for single-pass shaders)
+ * @param uniforms - The image pass uniforms; shared with every buffer pass
+ */
+export function createFeedbackPipeline(
+  definition: ShaderDefinition,
+  uniforms: ShaderUniforms
+): FeedbackPipeline | null {
+  if (!definition.buffers?.length) return null;
+
+  const passes: FeedbackPass[] = definition.buffers.map((buffer) => ({
+    id: buffer.id,
+    material: new THREE.ShaderMaterial({
+      vertexShader,
+      fragmentShader: expandShaderIncludes(buffer.fragment),
+      uniforms: {
+        ...uniforms,
+        uPrevFrame: { value: null },
+        uPassResolution: { value: new THREE.Vector2(1, 1) },
+      },
+    }),
+    targets: [createTarget(1, 1), createTarget(1, 1)],
+    readIndex: 0,
+    scale: buffer.scale ?? 1,
+    iterations: buffer.iterations ?? 1,
+  }));
+
+  const mesh = new THREE.Mesh(new THREE.PlaneGeometry(2, 2));
+  mesh.position.z = -0.5;
+  const scene = new THREE.Scene();
+  scene.add(mesh);
+
+  return {
+    passes,
+    scene,
+    camera: new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1),
+    mesh,
+    width: 0,
+    height: 0,
+  };
+}
+
+/**
+ * Match buffer sizes to the output; resizing clears the buffers, so
+ * callers should reset uFrame to let shaders re-seed their state
+ * @returns true when the targets were resized
+ */
+export function resizeFeedbackPipeline(
+  pipeline: FeedbackPipeline,
+  width: number,
+  height: number
+): boolean {
+  if (pipeline.width === width && pipeline.height === height) return false;
+
+  pipeline.width = width;
+  pipeline.height = height;
+
+  for (const pass of pipeline.passes) {
+    const passWidth = Math.max(1, Math.round(width * pass.scale));
+    const passHeight = Math.max(1, Math.round(height * pass.scale));
+    pass.targets.forEach((target) => target.setSize(passWidth, passHeight));
+    (pass.material.uniforms.uPassResolution.value as THREE.Vector2).set(passWidth, passHeight);
+  }
+
+  return true;
+}
+
+/**
+ * Advance every buffer pass by one frame
+ * @param uniforms - Shared uniforms; uBuffer<id> is pointed at each new output
+ */
+export function renderFeedbackPipeline(
+  gl: THREE.WebGLRenderer,
+  pipeline: FeedbackPipeline,
+  uniforms: ShaderUniforms
+) {
+  const previousTarget = gl.getRenderTarget();
+
+  for (const pass of pipeline.passes) {
+    pipeline.mesh.material = pass.material;
+
+    for (let i = 0; i < pass.iterations; i++) {
+      const writeIndex = pass.readIndex === 0 ? 1 : 0;
+      pass.material.uniforms.uPrevFrame.value = pass.targets[pass.readIndex].texture;
+
+      gl.setRenderTarget(pass.targets[writeIndex]);
+      gl.render(pipeline.scene, pipeline.camera);
+      pass.readIndex = writeIndex;
+    }
+
+    const output = uniforms[bufferUniformName(pass.id)];
+    if (output) output.value = pass.targets[pass.readIndex].texture;
+  }
+
+  gl.setRenderTarget(previousTarget);
+}
+
+/**
+ * Fresh buffers running the same passes, so an offscreen run can simulate
+ * without disturbing the live pipeline
+ * @param uniforms - The image pass uniforms; shared with every buffer pass
+ */
+export function cloneFeedbackPipeline(
+  pipeline: FeedbackPipeline,
+  uniforms: ShaderUniforms
+): FeedbackPipeline {
+  const passes: FeedbackPass[] = pipeline.passes.map((pass) => ({
+    ...pass,
+    material: new THREE.ShaderMaterial({
+      vertexShader: pass.material.vertexShader,
+      fragmentShader: pass.material.fragmentShader,
+      uniforms: {
+        ...uniforms,
+        uPrevFrame: { value: null },
+        uPassResolution: { value: new THREE.Vector2(1, 1) },
+      },
+    }),
+    targets: [createTarget(1, 1), createTarget(1, 1)],
+    readIndex: 0,
+  }));
+
+  const mesh = new THREE.Mesh(new THREE.PlaneGeometry(2, 2));
+  mesh.position.z = -0.5;
+  const scene = new THREE.Scene();
+  scene.add(mesh);
+
+  return { passes, scene, camera: pipeline.camera.clone(), mesh, width: 0, height: 0 };
+}
+
+/**
+ * Point the image pass back at the pipeline's latest buffer outputs
+ */
+export function bindFeedbackOutputs(pipeline: FeedbackPipeline, uniforms: ShaderUniforms) {
+  for (const pass of pipeline.passes) {
+    const output = uniforms[bufferUniformName(pass.id)];
+    if (output) output.value = pass.targets[pass.readIndex].texture;
+  }
+}
+
+export function disposeFeedbackPipeline(pipeline: FeedbackPipeline) {
+  for (const pass of pipeline.passes) {
+    pass.material.dispose();
+    pass.targets.forEach((target) => target.dispose());
+  }
+  pipeline.mesh.geometry.dispose();
+}
+
+// The exporter only sees the image material, so the pipeline rides along
+// on its userData
+export function attachFeedbackPipeline(
+  material: THREE.ShaderMaterial,
+  pipeline: FeedbackPipeline | null
+) {
+  material.userData.feedbackPipeline = pipeline;
+}
+
+export function getFeedbackPipeline(material: THREE.ShaderMaterial): FeedbackPipeline | null {
+  return (material.userData.feedbackPipeline as FeedbackPipeline | undefined) ?? null;
+}
@@ -0,0 +1,170 @@
+/**
+ * GLSL chunk library and `#include <name>` preprocessor
+ *
+ * Shaders pull shared helpers in with `#include <noise>` instead of pasting
+ * their own copies. Includes are expanded before a source reaches a
+ * ShaderMaterial (three.js would otherwise look the name up in its own
+ * ShaderChunk table). Unknown names are left in place so the compiler
+ * reports them on the right line.
+ */
+
+const noise = `
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+}
+
+vec2 hash2(vec2 p) {
+  return fract(sin(vec2(
+    dot(p, vec2(127.1, 311.7)),
+    dot(p, vec2(269.5, 183.3))
+  )) * 43758.5453);
+}
+
+// Value noise in [0, 1]
+float noise(vec2 p) {
+  vec2 i = floor(p);
+  vec2 f = fract(p);
+  f = f * f * (3.0 - 2.0 * f);
+
+  float a = hash(i);
+  float b = hash(i + vec2(1.0, 0.0));
+  float c = hash(i + vec2(0.0, 1.0));
+  float d = hash(i + vec2(1.0, 1.0));
+
+  return mix(mix(a, b, f.x), mix(c, d, f.x), f.y);
+}
+
+// Fractal Brownian motion, up to 8 octaves
+float fbm(vec2 p, int octaves) {
+  float value = 0.0;
+  float amplitude = 0.5;
+  for(int i = 0; i < 8; i++) {
+    if(i >= octaves) break;
+    value += amplitude * noise(p);
+    p *= 2.0;
+    amplitude *= 0.5;
+  }
+  return value;
+}
+`;
+
+const sdf = `
+float sdSphere(vec3 p, float r) {
+  return length(p) - r;
+}
+
+float sdBox(vec3 p, vec3 b) {
+  vec3 q = abs(p) - b;
+  return length(max(q, 0.0)) + min(max(q.x, max(q.y, q.z)), 0.0);
+}
+
+// t = (major radius, minor radius)
+float sdTorus(vec3 p, vec2 t) {
+  vec2 q = vec2(length(p.xz) - t.x, p.y);
+  return length(q) - t.y;
+}
+
+float sdCapsule(vec3 p, vec3 a, vec3 b, float r) {
+  vec3 pa = p - a;
+  vec3 ba = b - a;
+  float h = clamp(dot(pa, ba) / dot(ba, ba), 0.0, 1.0);
+  return length(pa - ba * h) - r;
+}
+
+float opSmoothUnion(float d1, float d2, float k) {
+  float h = clamp(0.5 + 0.5 * (d2 - d1) / k, 0.0, 1.0);
+  return mix(d2, d1, h) - k * h * (1.0 - h);
+}
+
+float opSubtraction(float d1, float d2) {
+  return max(-d1, d2);
+}
+`;
+
+const color = `
+vec3 rgb2hsv(vec3 c) {
+  vec4 K = vec4(0.0, -1.0 / 3.0, 2.0 / 3.0, -1.0);
+  vec4 p = mix(vec4(c.bg, K.wz), vec4(c.gb, K.xy), step(c.b, c.g));
+  vec4 q = mix(vec4(p.xyw, c.r), vec4(c.r, p.yzx), step(p.x, c.r));
+  float d = q.x - min(q.w, q.y);
+  float e = 1.0e-10;
+  return vec3(abs(q.z + (q.w - q.y) / (6.0 * d + e)), d / (q.x + e), q.x);
+}
+
+vec3 hsv2rgb(vec3 c) {
+  vec3 p = abs(fract(c.xxx + vec3(0.0, 2.0 / 3.0, 1.0 / 3.0)) * 6.0 - 3.0);
+  return c.z * mix(vec3(1.0), clamp(p - 1.0, 0.0, 1.0), c.y);
+}
+
+vec3 srgbToLinear(vec3 c) {
+  return mix(c / 12.92, pow((c + 0.055) / 1.055, vec3(2.4)), step(0.04045, c));
+}
+
+vec3 linearToSrgb(vec3 c) {
+  return mix(c * 12.92, 1.055 * pow(c, vec3(1.0 / 2.4)) - 0.055, step(0.0031308, c));
+}
+
+float luminance(vec3 c) {
+  return dot(c, vec3(0.2126, 0.7152, 0.0722));
+}
+`;
+
+const palette = `
+// Cosine palette: a + b * cos(2pi * (c * t + d))
+vec3 palette(float t, vec3 a, vec3 b, vec3 c, vec3 d) {
+  return a + b * cos(6.28318 * (c * t + d));
+}
+
+vec3 rainbowPalette(float t) {
+  return palette(t, vec3(0.5), vec3(0.5), vec3(1.0), vec3(0.0, 0.33, 0.67));
+}
+`;
+
+export const SHADER_CHUNKS: Record<string, string> = {
+  noise: noise.trim(),
+  sdf: sdf.trim(),
+  color: color.trim(),
+  palette: palette.trim(),
+};
+
+const INCLUDE_PATTERN = /^[ \t]*#include\s*<([\w./-]+)>[ \t]*$/;
+
+export interface ResolvedShaderSource {
+  source: string;
+  /** Source line (1-based) each output line came from; chunk lines map to their #include */
+  lineMap: number[];
+}
+
+/**
+ * Expand `#include <name>` lines; each chunk is included at most once
+ */
+export function resolveShaderIncludes(source: string): ResolvedShaderSource {
+  const lines: string[] = [];
+  const lineMap: number[] = [];
+  const included = new Set<string>();
+
+  source.split("\n").forEach((line, index) => {
+    const match = INCLUDE_PATTERN.exec(line);
+    const chunk = match ? SHADER_CHUNKS[match[1]] : undefined;
+
+    if (!match || chunk === undefined) {
+      lines.push(line);
+      lineMap.push(index + 1);
+      return;
+    }
+
+    if (included.has(match[1])) return;
+    included.add(match[1]);
+
+    for (const chunkLine of chunk.split("\n")) {
+      lines.push(chunkLine);
+      lineMap.push(index + 1);
+    }
+  });
+
+  return { source: lines.join("\n"), lineMap };
+}
+
+export function expandShaderIncludes(source: string): string {
+  return resolveShaderIncludes(source).source;
+}
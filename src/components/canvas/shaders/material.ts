@@ -0,0 +1,164 @@
+import * as THREE from "three";
+import type {
+  ShaderDefinition,
+  ShaderUniformDefinition,
+  ShaderUniformValue,
+  ShaderUniformValues,
+} from "./types";
+import { AUDIO_FFT_SIZE, type AudioAnalysisFrame } from "./audioAnalysis";
+import { expandShaderIncludes } from "./includes";
+
+// Common vertex shader
+export const vertexShader = `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+/**
+ * Vertex shader with a shader's displacement hook (plain one without)
+ */
+export function createVertexShader(displacement?: string) {
+  if (!displacement) return vertexShader;
+  return `
+  varying vec2 vUv;
+${expandShaderIncludes(displacement)}
+  void main() {
+    vUv = uv;
+    vec3 displaced = displace(position, normal, uv);
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(displaced, 1.0);
+  }
+`;
+}
+
+export type ShaderUniforms = Record<string, THREE.IUniform>;
+
+/** Sampler name a feedback buffer is exposed under (uBufferA, ...) */
+export function bufferUniformName(id: string) {
+  return `uBuffer${id}`;
+}
+
+/**
+ * Create the shared uniforms plus the shader's custom ones
+ */
+export function createShaderUniforms(
+  definition: ShaderDefinition,
+  options: { speed: number; baseColor: string; values?: ShaderUniformValues }
+): ShaderUniforms {
+  const uniforms: ShaderUniforms = {
+    uTime: { value: 0 },
+    uFrame: { value: 0 },
+    uMouse: { value: new THREE.Vector2(0.5, 0.5) },
+    uZoom: { value: 1 },
+    uTilt: { value: new THREE.Vector2(0, 0) },
+    uColor: { value: new THREE.Color(options.baseColor) },
+    uSpeed: { value: options.speed },
+    uAudioLevel: { value: 0 },
+    uBass: { value: 0 },
+    uMid: { value: 0 },
+    uTreble: { value: 0 },
+    uBeat: { value: 0 },
+    uSpectrum: { value: createSpectrumTexture() },
+    uResolution: { value: new THREE.Vector2(1, 1) },
+  };
+
+  for (const uniform of definition.uniforms) {
+    uniforms[uniform.name] = {
+      value: toUniformValue(uniform, options.values?.[uniform.name] ?? uniform.default),
+    };
+  }
+
+  // Filled in by the feedback pipeline each frame
+  for (const buffer of definition.buffers ?? []) {
+    uniforms[bufferUniformName(buffer.id)] = { value: null };
+  }
+
+  return uniforms;
+}
+
+// One row of byte magnitudes, sampled as texture2D(uSpectrum, vec2(x, 0.5)).r
+function createSpectrumTexture() {
+  const binCount = AUDIO_FFT_SIZE / 2;
+  const texture = new THREE.DataTexture(
+    new Uint8Array(binCount),
+    binCount,
+    1,
+    THREE.RedFormat,
+    THREE.UnsignedByteType
+  );
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * Push the latest audio analysis into the audio uniforms
+ */
+export function applyAudioFrame(uniforms: ShaderUniforms, frame: AudioAnalysisFrame) {
+  uniforms.uAudioLevel.value = frame.level;
+  uniforms.uBass.value = frame.bass;
+  uniforms.uMid.value = frame.mid;
+  uniforms.uTreble.value = frame.treble;
+  uniforms.uBeat.value = frame.beat;
+
+  const texture = uniforms.uSpectrum.value as THREE.DataTexture;
+  (texture.image.data as Uint8Array).set(frame.spectrum);
+  texture.needsUpdate = true;
+}
+
+/**
+ * Release textures owned by the uniforms (materials don't dispose textures).
+ * Buffer samplers point at render targets and are left to the pipeline.
+ */
+export function disposeShaderUniforms(uniforms: ShaderUniforms) {
+  for (const uniform of Object.values(uniforms)) {
+    if (uniform.value instanceof THREE.DataTexture) {
+      uniform.value.dispose();
+    }
+  }
+}
+
+/**
+ * Convert a stored control value into the value three.js uploads
+ */
+function toUniformValue(uniform: ShaderUniformDefinition, value: ShaderUniformValue) {
+  switch (uniform.type) {
+    case "vec2": {
+      const [x, y] = value as [number, number];
+      return new THREE.Vector2(x, y);
+    }
+    case "color":
+      return new THREE.Color(value as string);
+    case "int":
+      return Math.round(value as number);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Copy custom uniform values onto an existing material's uniforms
+ */
+export function applyUniformValues(
+  definition: ShaderDefinition,
+  uniforms: ShaderUniforms,
+  values: ShaderUniformValues | undefined
+) {
+  for (const uniform of definition.uniforms) {
+    const target = uniforms[uniform.name];
+    if (!target) continue;
+
+    const value = values?.[uniform.name] ?? uniform.default;
+    if (uniform.type === "vec2") {
+      const [x, y] = value as [number, number];
+      (target.value as THREE.Vector2).set(x, y);
+    } else if (uniform.type === "color") {
+      (target.value as THREE.Color).set(value as string);
+    } else {
+      target.value = toUniformValue(uniform, value);
+    }
+  }
+}
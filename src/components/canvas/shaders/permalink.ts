@@ -0,0 +1,107 @@
+/**
+ * Shareable shader permalinks
+ *
+ * Encodes the viewer state in the URL hash so a look can be sent to
+ * someone else: #shader=voronoi&speed=1.5&color=22d3ee&view=fullscreen&u.uCellDensity=8
+ * Custom uniforms are prefixed with "u." and parsed against the shader's
+ * definition, so unknown or out-of-range values are dropped or clamped.
+ */
+
+import { getShader } from "./registry";
+import { parseHexColor, parseSpeed, parseUniformValue, DEFAULT_BASE_COLOR } from "./values";
+import type { ShaderUniformDefinition, ShaderUniformValue, ShaderUniformValues } from "./types";
+
+export interface ShaderPermalinkState {
+  shaderId: string;
+  speed: number;
+  baseColor: string;
+  uniformValues: ShaderUniformValues;
+  fullscreen: boolean;
+}
+
+const UNIFORM_PREFIX = "u.";
+function formatNumber(value: number) {
+  // Trim float noise from slider steps (0.30000000000000004)
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function encodeUniformValue(value: ShaderUniformValue): string {
+  if (Array.isArray(value)) return value.map(formatNumber).join(",");
+  if (typeof value === "boolean") return value ? "1" : "0";
+  if (typeof value === "number") return formatNumber(value);
+  return value.replace("#", "");
+}
+
+// Read the URL form back into the type parseUniformValue checks
+function decodeUniformValue(
+  uniform: ShaderUniformDefinition,
+  raw: string
+): ShaderUniformValue | undefined {
+  switch (uniform.type) {
+    case "float":
+      return parseUniformValue(uniform, parseFloat(raw));
+    case "int":
+      return parseUniformValue(uniform, parseInt(raw, 10));
+    case "vec2":
+      return parseUniformValue(uniform, raw.split(",").map(parseFloat));
+    case "color":
+      return parseUniformValue(uniform, raw);
+    case "bool":
+      return raw === "1" || raw === "true";
+  }
+}
+
+/**
+ * Serialize viewer state into a hash fragment (without the leading "#")
+ */
+export function encodeShaderPermalink(state: ShaderPermalinkState): string {
+  const params = new URLSearchParams();
+  params.set("shader", state.shaderId);
+  params.set("speed", formatNumber(state.speed));
+  params.set("color", state.baseColor.replace("#", ""));
+  if (state.fullscreen) params.set("view", "fullscreen");
+
+  for (const [name, value] of Object.entries(state.uniformValues)) {
+    params.set(`${UNIFORM_PREFIX}${name}`, encodeUniformValue(value));
+  }
+
+  return params.toString();
+}
+
+/**
+ * Parse a hash fragment back into viewer state
+ * Returns null when the hash does not name a registered shader
+ */
+export function decodeShaderPermalink(hash: string): ShaderPermalinkState | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const shaderId = params.get("shader");
+  const definition = shaderId ? getShader(shaderId) : undefined;
+  if (!shaderId || !definition) return null;
+
+  const speed = parseFloat(params.get("speed") ?? "");
+  const color = params.get("color") ?? "";
+
+  const uniformValues: ShaderUniformValues = {};
+  for (const uniform of definition.uniforms) {
+    const raw = params.get(`${UNIFORM_PREFIX}${uniform.name}`);
+    if (raw === null) continue;
+    const value = decodeUniformValue(uniform, raw);
+    if (value !== undefined) uniformValues[uniform.name] = value;
+  }
+
+  return {
+    shaderId,
+    speed: parseSpeed(speed),
+    baseColor: parseHexColor(color) ?? DEFAULT_BASE_COLOR,
+    uniformValues,
+    fullscreen: params.get("view") === "fullscreen",
+  };
+}
+
+/**
+ * Absolute URL for the current page with the encoded state
+ */
+export function buildShaderPermalink(state: ShaderPermalinkState): string {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}#${encodeShaderPermalink(state)}`;
+}
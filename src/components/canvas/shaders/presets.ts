@@ -0,0 +1,225 @@
+/**
+ * Named shader presets
+ *
+ * A preset is a snapshot of one shader's look: speed, base colour and every
+ * custom uniform. Presets persist in localStorage and can be exported or
+ * imported as JSON files; imported values are checked against the shader's
+ * definition the same way permalinks are. Presets for shaders that aren't
+ * registered stay in storage but aren't listed.
+ */
+
+import { getShader, getDefaultUniformValues } from "./registry";
+import {
+  isFiniteNumber,
+  parseHexColor,
+  parseSpeed,
+  parseUniformValue,
+  DEFAULT_BASE_COLOR,
+} from "./values";
+import type { ShaderDefinition, ShaderUniformValue, ShaderUniformValues } from "./types";
+
+export interface ShaderPreset {
+  name: string;
+  shaderId: string;
+  speed: number;
+  baseColor: string;
+  uniformValues: ShaderUniformValues;
+}
+
+interface ShaderPresetFile {
+  version: 1;
+  presets: ShaderPreset[];
+}
+
+const STORAGE_KEY = "shader-presets";
+const EMPTY: ShaderPreset[] = [];
+
+// Shape check only, for presets whose shader isn't registered
+function isUniformValue(value: unknown): value is ShaderUniformValue {
+  return (
+    isFiniteNumber(value) ||
+    typeof value === "boolean" ||
+    typeof value === "string" ||
+    (Array.isArray(value) &&
+      value.length === 2 &&
+      isFiniteNumber(value[0]) &&
+      isFiniteNumber(value[1]))
+  );
+}
+
+/**
+ * Check uniform values against a shader's definition, filling in defaults;
+ * without a definition, well-formed values are kept as they are
+ */
+function parseUniformValues(
+  definition: ShaderDefinition | undefined,
+  raw: unknown
+): ShaderUniformValues {
+  const input = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+
+  if (!definition) {
+    const values: ShaderUniformValues = {};
+    for (const [name, value] of Object.entries(input)) {
+      if (isUniformValue(value)) values[name] = value;
+    }
+    return values;
+  }
+
+  const values: ShaderUniformValues = getDefaultUniformValues(definition);
+  for (const uniform of definition.uniforms) {
+    const value = parseUniformValue(uniform, input[uniform.name]);
+    if (value !== undefined) values[uniform.name] = value;
+  }
+  return values;
+}
+
+/**
+ * Validate one untrusted preset; null when it is malformed
+ *
+ * Presets for shaders that aren't registered (an imported Shadertoy that
+ * hasn't loaded yet, say) are kept so saving other presets doesn't drop them.
+ */
+function parsePreset(raw: unknown): ShaderPreset | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { name, shaderId, speed, baseColor, uniformValues } = raw as Record<string, unknown>;
+  if (typeof name !== "string" || !name.trim() || typeof shaderId !== "string") return null;
+
+  return {
+    name: name.trim(),
+    shaderId,
+    speed: parseSpeed(speed),
+    baseColor: parseHexColor(baseColor) ?? DEFAULT_BASE_COLOR,
+    uniformValues: parseUniformValues(getShader(shaderId), uniformValues),
+  };
+}
+
+/**
+ * Snapshot the current look; missing uniform values are filled with defaults
+ */
+export function createShaderPreset(
+  name: string,
+  definition: ShaderDefinition,
+  state: { speed: number; baseColor: string; uniformValues?: ShaderUniformValues }
+): ShaderPreset {
+  return {
+    name: name.trim(),
+    shaderId: definition.info.id,
+    speed: state.speed,
+    baseColor: state.baseColor,
+    uniformValues: { ...getDefaultUniformValues(definition), ...state.uniformValues },
+  };
+}
+
+// Store (localStorage-backed, shaped for useSyncExternalStore)
+let snapshot: ShaderPreset[] | null = null;
+const listeners = new Set<() => void>();
+
+function readStorage(): ShaderPreset[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? parseShaderPresetFile(stored) : [];
+  } catch (err) {
+    console.error("Failed to read shader presets:", err);
+    return [];
+  }
+}
+
+function commit(presets: ShaderPreset[]) {
+  snapshot = presets;
+  try {
+    const file: ShaderPresetFile = { version: 1, presets };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(file));
+  } catch (err) {
+    console.error("Failed to save shader presets:", err);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * All saved presets (stable between changes, empty during SSR)
+ */
+export function getShaderPresets(): ShaderPreset[] {
+  if (typeof window === "undefined") return EMPTY;
+  snapshot ??= readStorage();
+  return snapshot;
+}
+
+export function getServerShaderPresets(): ShaderPreset[] {
+  return EMPTY;
+}
+
+export function subscribeToShaderPresets(listener: () => void): () => void {
+  // Pick up saves from other tabs
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    snapshot = readStorage();
+    listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+}
+
+/**
+ * Presets for one registered shader, with values checked against its current
+ * definition (empty without one; presets for unknown shaders stay in storage)
+ */
+export function selectShaderPresets(
+  presets: ShaderPreset[],
+  definition: ShaderDefinition | undefined
+): ShaderPreset[] {
+  if (!definition) return EMPTY;
+  return presets
+    .filter((preset) => preset.shaderId === definition.info.id)
+    .map((preset) => ({
+      ...preset,
+      uniformValues: parseUniformValues(definition, preset.uniformValues),
+    }));
+}
+
+function isSamePreset(a: ShaderPreset, b: ShaderPreset) {
+  return a.shaderId === b.shaderId && a.name === b.name;
+}
+
+/**
+ * Save presets, replacing any with the same shader and name
+ */
+export function saveShaderPresets(presets: ShaderPreset[]) {
+  const kept = getShaderPresets().filter(
+    (existing) => !presets.some((preset) => isSamePreset(existing, preset))
+  );
+  commit([...kept, ...presets]);
+}
+
+export function deleteShaderPreset(shaderId: string, name: string) {
+  commit(
+    getShaderPresets().filter((preset) => preset.shaderId !== shaderId || preset.name !== name)
+  );
+}
+
+export function serializeShaderPresets(presets: ShaderPreset[]): string {
+  const file: ShaderPresetFile = { version: 1, presets };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse an exported preset file, dropping malformed presets
+ * @throws Error when the JSON is not a preset file
+ */
+export function parseShaderPresetFile(json: string): ShaderPreset[] {
+  const data: unknown = JSON.parse(json);
+  const presets = Array.isArray(data)
+    ? data
+    : data && typeof data === "object"
+      ? (data as Partial<ShaderPresetFile>).presets
+      : undefined;
+  if (!Array.isArray(presets)) {
+    throw new Error("Not a shader preset file");
+  }
+
+  return presets.map(parsePreset).filter((preset) => preset !== null);
+}
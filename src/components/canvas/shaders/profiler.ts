@@ -0,0 +1,246 @@
+/**
+ * Shader profiling
+ *
+ * GPU time comes from EXT_disjoint_timer_query_webgl2 queries wrapped around
+ * draw calls; results arrive a few frames later and are dropped when the GPU
+ * reports a disjoint (e.g. power state change). Without the extension only
+ * CPU-side frame times are available.
+ *
+ * The benchmark renders every shader offscreen for a fixed number of frames
+ * at a fixed resolution, so results are comparable between shaders and
+ * independent of the viewer's size and DPR.
+ */
+
+import * as THREE from "three";
+import { vertexShader, createShaderUniforms, disposeShaderUniforms } from "./material";
+import { expandShaderIncludes } from "./includes";
+import {
+  createFeedbackPipeline,
+  disposeFeedbackPipeline,
+  renderFeedbackPipeline,
+  resizeFeedbackPipeline,
+} from "./feedback";
+import type { ShaderDefinition } from "./types";
+
+interface DisjointTimerQueryExt {
+  TIME_ELAPSED_EXT: number;
+  GPU_DISJOINT_EXT: number;
+}
+
+export interface GpuTimer {
+  gl: WebGL2RenderingContext;
+  ext: DisjointTimerQueryExt;
+  active: WebGLQuery | null;
+  /** Ended queries waiting for results, oldest first */
+  pending: WebGLQuery[];
+}
+
+export interface ProfilerStats {
+  /** Average GPU time per frame in ms (null without timer queries) */
+  gpuMs: number | null;
+  /** Average time between frames in ms */
+  cpuMs: number;
+  fps: number;
+}
+
+export interface ShaderBenchmarkOptions {
+  width: number;
+  height: number;
+  frames: number;
+}
+
+export interface ShaderBenchmarkResult {
+  id: string;
+  name: string;
+  /** Average GPU time per frame (null without timer queries) */
+  gpuMs: number | null;
+  /** Average wall time per frame including a final GPU sync */
+  cpuMs: number;
+}
+
+export const BENCHMARK_RESOLUTIONS = [
+  { label: "720p", width: 1280, height: 720 },
+  { label: "1080p", width: 1920, height: 1080 },
+  { label: "4K", width: 3840, height: 2160 },
+] as const;
+
+// Give up on outstanding queries after this long
+const QUERY_TIMEOUT_MS = 2000;
+
+export function createProfilerStats(): ProfilerStats {
+  return { gpuMs: null, cpuMs: 0, fps: 0 };
+}
+
+/**
+ * Timer query wrapper (null on WebGL1 or without the extension)
+ */
+export function createGpuTimer(renderer: THREE.WebGLRenderer): GpuTimer | null {
+  const gl = renderer.getContext();
+  if (typeof WebGL2RenderingContext === "undefined" || !(gl instanceof WebGL2RenderingContext)) {
+    return null;
+  }
+
+  const ext = gl.getExtension("EXT_disjoint_timer_query_webgl2") as DisjointTimerQueryExt | null;
+  return ext ? { gl, ext, active: null, pending: [] } : null;
+}
+
+export function beginGpuQuery(timer: GpuTimer) {
+  if (timer.active) return;
+  const query = timer.gl.createQuery();
+  if (!query) return;
+  timer.gl.beginQuery(timer.ext.TIME_ELAPSED_EXT, query);
+  timer.active = query;
+}
+
+export function endGpuQuery(timer: GpuTimer) {
+  if (!timer.active) return;
+  timer.gl.endQuery(timer.ext.TIME_ELAPSED_EXT);
+  timer.pending.push(timer.active);
+  timer.active = null;
+}
+
+/**
+ * Collect finished queries in ms (disjoint results are discarded)
+ */
+export function collectGpuQueries(timer: GpuTimer): number[] {
+  const { gl, ext } = timer;
+  const results: number[] = [];
+
+  while (timer.pending.length > 0) {
+    const query = timer.pending[0];
+    if (!gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE)) break;
+
+    const disjoint = gl.getParameter(ext.GPU_DISJOINT_EXT);
+    if (!disjoint) results.push(gl.getQueryParameter(query, gl.QUERY_RESULT) / 1e6);
+    gl.deleteQuery(query);
+    timer.pending.shift();
+  }
+
+  return results;
+}
+
+export function disposeGpuTimer(timer: GpuTimer) {
+  if (timer.active) endGpuQuery(timer);
+  timer.pending.forEach((query) => timer.gl.deleteQuery(query));
+  timer.pending = [];
+}
+
+function nextFrame() {
+  return new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+}
+
+async function waitForGpuQueries(timer: GpuTimer, count: number): Promise<number[]> {
+  const results: number[] = [];
+  const start = performance.now();
+
+  while (timer.pending.length > 0 && performance.now() - start < QUERY_TIMEOUT_MS) {
+    results.push(...collectGpuQueries(timer));
+    if (results.length >= count) break;
+    await nextFrame();
+  }
+
+  return results;
+}
+
+function average(values: number[]) {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Render one shader offscreen for a fixed number of frames
+ */
+async function benchmarkShader(
+  renderer: THREE.WebGLRenderer,
+  timer: GpuTimer | null,
+  definition: ShaderDefinition,
+  { width, height, frames }: ShaderBenchmarkOptions
+): Promise<ShaderBenchmarkResult> {
+  const uniforms = createShaderUniforms(definition, { speed: 1, baseColor: "#a855f7" });
+  uniforms.uResolution.value.set(width, height);
+
+  const material = new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader: expandShaderIncludes(definition.fragment),
+    uniforms,
+  });
+  const pipeline = createFeedbackPipeline(definition, uniforms);
+  if (pipeline) resizeFeedbackPipeline(pipeline, width, height);
+
+  const target = new THREE.WebGLRenderTarget(width, height);
+  const geometry = new THREE.PlaneGeometry(2, 2);
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.position.z = -0.5;
+  const scene = new THREE.Scene();
+  scene.add(mesh);
+  const camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+
+  const pixel = new Uint8Array(4);
+  const previousTarget = renderer.getRenderTarget();
+
+  const renderFrame = (frame: number) => {
+    uniforms.uTime.value = frame / 60;
+    if (pipeline) renderFeedbackPipeline(renderer, pipeline, uniforms);
+    renderer.setRenderTarget(target);
+    renderer.render(scene, camera);
+    uniforms.uFrame.value++;
+  };
+
+  // Reading a pixel back waits for the GPU to finish
+  const sync = () => renderer.readRenderTargetPixels(target, 0, 0, 1, 1, pixel);
+
+  try {
+    // Warm-up frame compiles the program outside the measurement
+    renderFrame(0);
+    sync();
+
+    const start = performance.now();
+    for (let i = 1; i <= frames; i++) {
+      if (timer) beginGpuQuery(timer);
+      renderFrame(i);
+      if (timer) endGpuQuery(timer);
+    }
+    sync();
+    const cpuMs = (performance.now() - start) / frames;
+
+    renderer.setRenderTarget(previousTarget);
+    const gpuTimes = timer ? await waitForGpuQueries(timer, frames) : [];
+
+    return {
+      id: definition.info.id,
+      name: definition.info.name,
+      gpuMs: gpuTimes.length > 0 ? average(gpuTimes) : null,
+      cpuMs,
+    };
+  } finally {
+    if (timer) disposeGpuTimer(timer);
+    renderer.setRenderTarget(previousTarget);
+    target.dispose();
+    geometry.dispose();
+    material.dispose();
+    if (pipeline) disposeFeedbackPipeline(pipeline);
+    disposeShaderUniforms(uniforms);
+  }
+}
+
+/**
+ * Benchmark every shader in turn
+ * @param onProgress - Called after each shader with the results so far
+ */
+export async function benchmarkShaders(
+  renderer: THREE.WebGLRenderer,
+  definitions: ShaderDefinition[],
+  options: ShaderBenchmarkOptions,
+  onProgress?: (results: ShaderBenchmarkResult[], total: number) => void
+): Promise<ShaderBenchmarkResult[]> {
+  const timer = createGpuTimer(renderer);
+  const results: ShaderBenchmarkResult[] = [];
+
+  for (const definition of definitions) {
+    results.push(await benchmarkShader(renderer, timer, definition, options));
+    onProgress?.([...results], definitions.length);
+    // Let the UI update between shaders
+    await nextFrame();
+  }
+
+  return results;
+}
@@ -0,0 +1,103 @@
+/**
+ * Shader registry
+ *
+ * Single source of truth for gallery shaders: metadata, fragment source,
+ * custom uniforms and thumbnail settings live in one definition. Adding a
+ * shader means adding a file under definitions/ and listing it below;
+ * runtime entries can be plugged in with registerShader().
+ */
+
+import type { ShaderDefinition, ShaderUniformValues } from "./types";
+import { plasmaShader } from "./definitions/plasma";
+import { raymarchingShader } from "./definitions/raymarching";
+import { voronoiShader } from "./definitions/voronoi";
+import { fractalShader } from "./definitions/fractal";
+import { warpShader } from "./definitions/warp";
+import { audioShader } from "./definitions/audio";
+import { galaxyShader } from "./definitions/galaxy";
+import { liquidShader } from "./definitions/liquid";
+import { reactionShader } from "./definitions/reaction";
+
+const BUILT_IN_SHADERS: ShaderDefinition[] = [
+  plasmaShader,
+  raymarchingShader,
+  voronoiShader,
+  fractalShader,
+  warpShader,
+  audioShader,
+  galaxyShader,
+  liquidShader,
+  reactionShader,
+];
+
+// Definitions keep GLSL on its own lines; strip the surrounding newlines so
+// editor line numbers match the compiled source
+function normalize(definition: ShaderDefinition): ShaderDefinition {
+  return {
+    ...definition,
+    fragment: definition.fragment.trim(),
+    buffers: definition.buffers?.map((buffer) => ({ ...buffer, fragment: buffer.fragment.trim() })),
+  };
+}
+
+const registry = new Map<string, ShaderDefinition>(
+  BUILT_IN_SHADERS.map((definition) => [definition.info.id, normalize(definition)])
+);
+let snapshot: ShaderDefinition[] = Array.from(registry.values());
+const listeners = new Set<() => void>();
+
+function emitChange() {
+  snapshot = Array.from(registry.values());
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Add or replace a shader definition
+ */
+export function registerShader(definition: ShaderDefinition) {
+  registry.set(definition.info.id, normalize(definition));
+  emitChange();
+}
+
+/**
+ * Remove a shader definition (no-op for unknown ids)
+ */
+export function unregisterShader(id: string) {
+  if (registry.delete(id)) {
+    emitChange();
+  }
+}
+
+export function getShader(id: string): ShaderDefinition | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Look up a shader, falling back to the first built-in one
+ */
+export function resolveShader(id: string): ShaderDefinition {
+  return registry.get(id) ?? snapshot[0];
+}
+
+/**
+ * All registered shaders in registration order (stable between changes)
+ */
+export function getShaders(): ShaderDefinition[] {
+  return snapshot;
+}
+
+export function subscribeToShaders(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Default values for a shader's custom uniforms
+ */
+export function getDefaultUniformValues(definition: ShaderDefinition): ShaderUniformValues {
+  return Object.fromEntries(
+    definition.uniforms.map((uniform) => [uniform.name, uniform.default])
+  );
+}
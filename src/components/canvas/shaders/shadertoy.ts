@@ -0,0 +1,132 @@
+/**
+ * Shadertoy import
+ *
+ * Wraps Shadertoy-style source (a `mainImage` entry point using iTime,
+ * iResolution, iMouse, ...) so it runs on the gallery's shared uniforms and
+ * the `vUv` varying from the shared vertex shader. Sources that read
+ * iChannel0 become a single feedback buffer whose iChannel0 is its own
+ * previous frame, with a passthrough image pass on top.
+ */
+
+import { compileFragmentShader, type ShaderCompileError } from "./compile";
+import { getShader } from "./registry";
+import type { ShaderDefinition } from "./types";
+
+export class ShadertoyImportError extends Error {
+  constructor(
+    message: string,
+    public errors: ShaderCompileError[] = []
+  ) {
+    super(message);
+    this.name = "ShadertoyImportError";
+  }
+}
+
+const MAIN_IMAGE_PATTERN = /\bvoid\s+mainImage\s*\(/;
+const CHANNEL_PATTERN = /\biChannel(\d)\b/g;
+
+// iMouse.zw mirrors xy: the gallery mouse follows the pointer without a
+// button, so treat it as always pressed
+const SHADERTOY_HEADER = `uniform float uTime;
+uniform vec2 uResolution;
+uniform vec2 uMouse;
+uniform int uFrame;
+varying vec2 vUv;
+
+#define iTime uTime
+#define iFrame uFrame
+#define iResolution vec3(uResolution, 1.0)
+#define iMouse vec4(uMouse * uResolution, uMouse * uResolution)
+`;
+
+const FEEDBACK_HEADER = `uniform sampler2D uPrevFrame;
+#define iChannel0 uPrevFrame
+`;
+
+const SHADERTOY_FOOTER = `
+void main() {
+  vec4 color = vec4(0.0, 0.0, 0.0, 1.0);
+  mainImage(color, vUv * iResolution.xy);
+  gl_FragColor = vec4(color.rgb, 1.0);
+}`;
+
+const PASSTHROUGH_FRAGMENT = `uniform sampler2D uBufferA;
+varying vec2 vUv;
+
+void main() {
+  gl_FragColor = vec4(texture2D(uBufferA, vUv).rgb, 1.0);
+}`;
+
+function lineCount(text: string) {
+  return text.split("\n").length - 1;
+}
+
+/**
+ * Wrap a Shadertoy source into a gallery fragment shader
+ * @param feedback - Bind iChannel0 to the pass's previous frame
+ */
+function wrapShadertoySource(source: string, feedback: boolean) {
+  const header = feedback ? `${SHADERTOY_HEADER}${FEEDBACK_HEADER}` : SHADERTOY_HEADER;
+  return {
+    fragment: `${header}\n${source.trim()}\n${SHADERTOY_FOOTER}`,
+    // Lines before the pasted source starts
+    headerLines: lineCount(header) + 1,
+  };
+}
+
+function uniqueId(name: string) {
+  const slug =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "shader";
+  let id = `shadertoy-${slug}`;
+  for (let i = 2; getShader(id); i++) id = `shadertoy-${slug}-${i}`;
+  return id;
+}
+
+/**
+ * Turn Shadertoy source into a gallery definition (not yet registered)
+ * @throws ShadertoyImportError when the source can't be used; compile
+ *   errors carry line numbers relative to the pasted source
+ */
+export function createShadertoyDefinition(source: string, name: string): ShaderDefinition {
+  if (!MAIN_IMAGE_PATTERN.test(source)) {
+    throw new ShadertoyImportError("No mainImage(out vec4, in vec2) function found");
+  }
+
+  const channels = new Set(Array.from(source.matchAll(CHANNEL_PATTERN), (match) => match[1]));
+  if ([...channels].some((channel) => channel !== "0")) {
+    throw new ShadertoyImportError("Only iChannel0 (previous frame) is supported");
+  }
+
+  const feedback = channels.has("0");
+  const { fragment, headerLines } = wrapShadertoySource(source, feedback);
+
+  const errors = compileFragmentShader(fragment).map((error) => ({
+    ...error,
+    line: error.line === null ? null : error.line - headerLines,
+  }));
+  if (errors.length > 0) {
+    throw new ShadertoyImportError("Shader failed to compile", errors);
+  }
+
+  const title = name.trim() || "Imported Shader";
+
+  return {
+    info: {
+      id: uniqueId(title),
+      name: title,
+      description: feedback
+        ? "Imported from Shadertoy (iChannel0 reads the previous frame)"
+        : "Imported from Shadertoy",
+      tags: ["imported", "shadertoy"],
+      audioReactive: false,
+    },
+    uniforms: [],
+    thumbnail: { speedScale: 1, mouse: [0.5, 0.5] },
+    ...(feedback
+      ? { fragment: PASSTHROUGH_FRAGMENT, buffers: [{ id: "A", fragment }] }
+      : { fragment }),
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Preview surfaces for gallery shaders
+ *
+ * The gallery normally draws onto a flat quad; the fullscreen viewer can
+ * also put a shader on real geometry to judge it as a product material.
+ */
+
+import * as THREE from "three";
+import { createPrismGeometry } from "../prismGeometry";
+
+export type ShaderSurface = "plane" | "sphere" | "torusKnot" | "prism";
+
+export const SHADER_SURFACES: { value: ShaderSurface; label: string }[] = [
+  { value: "plane", label: "Plane" },
+  { value: "sphere", label: "Sphere" },
+  { value: "torusKnot", label: "Torus Knot" },
+  { value: "prism", label: "Prism" },
+];
+
+export function createSurfaceGeometry(surface: ShaderSurface): THREE.BufferGeometry {
+  switch (surface) {
+    case "plane":
+      return new THREE.PlaneGeometry(2, 2);
+    case "sphere":
+      return new THREE.SphereGeometry(1.4, 128, 64);
+    case "torusKnot":
+      return new THREE.TorusKnotGeometry(1, 0.32, 256, 32);
+    case "prism":
+      // Extruded from z = 0; center it so it orbits around its middle
+      return createPrismGeometry().center();
+  }
+}
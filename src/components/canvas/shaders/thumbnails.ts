@@ -0,0 +1,162 @@
+/**
+ * Shared-context gallery thumbnails
+ *
+ * Every grid card owns a plain 2D canvas; one offscreen WebGLRenderer draws
+ * each visible card's shader into a viewport of its own canvas and copies
+ * the pixels across. The grid therefore uses a single WebGL context no
+ * matter how many shaders are registered, and each 2D canvas doubles as a
+ * cache of the last frame when animation is paused.
+ */
+
+import * as THREE from "three";
+import {
+  vertexShader,
+  createShaderUniforms,
+  disposeShaderUniforms,
+  type ShaderUniforms,
+} from "./material";
+import {
+  createFeedbackPipeline,
+  disposeFeedbackPipeline,
+  renderFeedbackPipeline,
+  resizeFeedbackPipeline,
+  type FeedbackPipeline,
+} from "./feedback";
+import { expandShaderIncludes } from "./includes";
+import type { ShaderDefinition, ShaderUniformValues } from "./types";
+
+export interface ThumbnailSlot {
+  canvas: HTMLCanvasElement;
+  context: CanvasRenderingContext2D;
+  uniforms: ShaderUniforms;
+  material: THREE.ShaderMaterial;
+  pipeline: FeedbackPipeline | null;
+  /** Card is on screen (IntersectionObserver) */
+  visible: boolean;
+  /** Needs a new frame even while animation is paused (new, resized or edited) */
+  dirty: boolean;
+}
+
+export interface ThumbnailRenderer {
+  gl: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.OrthographicCamera;
+  mesh: THREE.Mesh;
+}
+
+interface ThumbnailSlotOptions {
+  speed: number;
+  baseColor: string;
+  values?: ShaderUniformValues;
+  mouse: [number, number];
+  fragment?: string;
+}
+
+// Pre-allocated to avoid per-frame allocations
+const drawingBufferSize = new THREE.Vector2();
+
+export function createThumbnailSlot(
+  definition: ShaderDefinition,
+  canvas: HTMLCanvasElement,
+  options: ThumbnailSlotOptions
+): ThumbnailSlot {
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("2D canvas unavailable");
+
+  const uniforms = createShaderUniforms(definition, options);
+  uniforms.uMouse.value.set(options.mouse[0], options.mouse[1]);
+
+  return {
+    canvas,
+    context,
+    uniforms,
+    material: new THREE.ShaderMaterial({
+      vertexShader,
+      fragmentShader: expandShaderIncludes(options.fragment ?? definition.fragment),
+      uniforms,
+    }),
+    pipeline: createFeedbackPipeline(definition, uniforms),
+    visible: false,
+    dirty: true,
+  };
+}
+
+/**
+ * Swap the fragment source (live editor) and schedule a redraw
+ */
+export function setThumbnailFragment(slot: ThumbnailSlot, fragment: string) {
+  const expanded = expandShaderIncludes(fragment);
+  if (slot.material.fragmentShader === expanded) return;
+  slot.material.fragmentShader = expanded;
+  slot.material.needsUpdate = true;
+  slot.dirty = true;
+}
+
+export function disposeThumbnailSlot(slot: ThumbnailSlot) {
+  slot.material.dispose();
+  if (slot.pipeline) disposeFeedbackPipeline(slot.pipeline);
+  disposeShaderUniforms(slot.uniforms);
+}
+
+export function createThumbnailRenderer(): ThumbnailRenderer {
+  const gl = new THREE.WebGLRenderer({
+    antialias: false,
+    alpha: true,
+    powerPreference: "low-power",
+  });
+  gl.setPixelRatio(1);
+
+  const mesh = new THREE.Mesh(new THREE.PlaneGeometry(2, 2));
+  mesh.position.z = -0.5;
+  const scene = new THREE.Scene();
+  scene.add(mesh);
+
+  return { gl, scene, camera: new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1), mesh };
+}
+
+export function disposeThumbnailRenderer(renderer: ThumbnailRenderer) {
+  renderer.mesh.geometry.dispose();
+  renderer.gl.dispose();
+  renderer.gl.forceContextLoss();
+}
+
+/**
+ * Draw one frame of a slot's shader into its card canvas
+ */
+export function renderThumbnail(renderer: ThumbnailRenderer, slot: ThumbnailSlot, time: number) {
+  const { gl } = renderer;
+  const { width, height } = slot.canvas;
+  if (width === 0 || height === 0) return;
+
+  // Grow the shared drawing buffer to fit the largest card seen so far
+  const size = gl.getSize(drawingBufferSize);
+  if (size.x < width || size.y < height) {
+    gl.setSize(Math.max(size.x, width), Math.max(size.y, height), false);
+    gl.getSize(size);
+  }
+
+  const { uniforms } = slot;
+  uniforms.uTime.value = time;
+  uniforms.uResolution.value.set(width, height);
+
+  if (slot.pipeline) {
+    if (resizeFeedbackPipeline(slot.pipeline, width, height)) uniforms.uFrame.value = 0;
+    renderFeedbackPipeline(gl, slot.pipeline, uniforms);
+  }
+  uniforms.uFrame.value++;
+
+  gl.setViewport(0, 0, width, height);
+  gl.setScissor(0, 0, width, height);
+  gl.setScissorTest(true);
+  gl.setRenderTarget(null);
+  gl.clear();
+  renderer.mesh.material = slot.material;
+  gl.render(renderer.scene, renderer.camera);
+  gl.setScissorTest(false);
+
+  // The viewport sits at the bottom of the drawing buffer; copying within
+  // the same task is fine without preserveDrawingBuffer
+  slot.context.clearRect(0, 0, width, height);
+  slot.context.drawImage(gl.domElement, 0, size.y - height, width, height, 0, 0, width, height);
+  slot.dirty = false;
+}
@@ -0,0 +1,90 @@
+export interface ShaderInfo {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  audioReactive: boolean;
+}
+
+// Extra uniforms a shader exposes on top of the shared ones (uTime, uColor, ...)
+interface BaseUniformDefinition {
+  name: string;
+  label: string;
+}
+
+export interface FloatUniformDefinition extends BaseUniformDefinition {
+  type: "float";
+  default: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Slider when only a range is given, dropdown when options are listed
+export interface IntUniformDefinition extends BaseUniformDefinition {
+  type: "int";
+  default: number;
+  min: number;
+  max: number;
+  options?: { label: string; value: number }[];
+}
+
+export interface Vec2UniformDefinition extends BaseUniformDefinition {
+  type: "vec2";
+  default: [number, number];
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface ColorUniformDefinition extends BaseUniformDefinition {
+  type: "color";
+  default: string;
+}
+
+export interface BoolUniformDefinition extends BaseUniformDefinition {
+  type: "bool";
+  default: boolean;
+}
+
+export type ShaderUniformDefinition =
+  | FloatUniformDefinition
+  | IntUniformDefinition
+  | Vec2UniformDefinition
+  | ColorUniformDefinition
+  | BoolUniformDefinition;
+
+export type ShaderUniformValue = number | boolean | string | [number, number];
+
+export type ShaderUniformValues = Record<string, ShaderUniformValue>;
+
+// How the shader is animated in the gallery grid
+export interface ShaderThumbnail {
+  speedScale: number;
+  mouse: [number, number];
+}
+
+// Shadertoy-style "Buffer A/B" pass rendered into ping-pong targets before
+// the image pass. Each pass samples its own last frame as uPrevFrame, and
+// every pass (including the image) sees the latest output as uBuffer<id>.
+export interface ShaderBufferDefinition {
+  id: string;
+  fragment: string;
+  /** Target size relative to the canvas (default 1) */
+  scale?: number;
+  /** Simulation steps per rendered frame (default 1) */
+  iterations?: number;
+}
+
+export interface ShaderDefinition {
+  info: ShaderInfo;
+  fragment: string;
+  uniforms: ShaderUniformDefinition[];
+  thumbnail: ShaderThumbnail;
+  buffers?: ShaderBufferDefinition[];
+  /**
+   * GLSL defining `vec3 displace(vec3 position, vec3 normal, vec2 uv)`,
+   * applied when previewing on a mesh surface (ignored on the flat quad)
+   */
+  displacement?: string;
+}
@@ -0,0 +1,65 @@
+/**
+ * Shader state checks shared by permalinks and presets
+ *
+ * Both read a look from outside (a URL hash or a JSON file) and fit it to
+ * the shader's definition: numbers are clamped to the uniform's range, ints
+ * must be one of its options, and anything malformed is dropped.
+ */
+
+import type { ShaderUniformDefinition, ShaderUniformValue } from "./types";
+
+export const SPEED_RANGE = { min: 0.1, max: 3 };
+export const DEFAULT_BASE_COLOR = "#a855f7";
+
+// Leading "#" optional: permalinks leave it out
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{6})$/i;
+
+export function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Lowercase "#rrggbb", or undefined when the value isn't a hex colour
+ */
+export function parseHexColor(value: unknown): string | undefined {
+  const match = typeof value === "string" ? HEX_COLOR_PATTERN.exec(value) : null;
+  return match ? `#${match[1].toLowerCase()}` : undefined;
+}
+
+export function parseSpeed(value: unknown): number {
+  return isFiniteNumber(value) ? clamp(value, SPEED_RANGE.min, SPEED_RANGE.max) : 1;
+}
+
+/**
+ * Fit a value to a uniform's type and range; undefined when it doesn't fit
+ */
+export function parseUniformValue(
+  uniform: ShaderUniformDefinition,
+  value: unknown
+): ShaderUniformValue | undefined {
+  switch (uniform.type) {
+    case "float":
+      return isFiniteNumber(value) ? clamp(value, uniform.min, uniform.max) : undefined;
+    case "int": {
+      if (!isFiniteNumber(value)) return undefined;
+      const rounded = Math.round(value);
+      if (uniform.options && !uniform.options.some((option) => option.value === rounded)) {
+        return undefined;
+      }
+      return clamp(rounded, uniform.min, uniform.max);
+    }
+    case "vec2":
+      if (!Array.isArray(value) || !isFiniteNumber(value[0]) || !isFiniteNumber(value[1])) {
+        return undefined;
+      }
+      return [clamp(value[0], uniform.min, uniform.max), clamp(value[1], uniform.min, uniform.max)];
+    case "color":
+      return parseHexColor(value);
+    case "bool":
+      return typeof value === "boolean" ? value : undefined;
+  }
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState, useRef, useCallback, useEffect } from "react";
+import {
+  AUDIO_FFT_SIZE,
+  analyseAudioFrame,
+  createAudioAnalysisFrame,
+  createBeatDetector,
+  resetAudioAnalysisFrame,
+  type AudioAnalysisFrame,
+} from "@/components/canvas/shaders/audioAnalysis";
+
+export type AudioSourceKind = "microphone" | "file";
+
+export interface AudioLevels {
+  level: number;
+  bass: number;
+  mid: number;
+  treble: number;
+  beat: number;
+}
+
+const SILENT_LEVELS: AudioLevels = { level: 0, bass: 0, mid: 0, treble: 0, beat: 0 };
+// Meters don't need every frame; this keeps the page from re-rendering at 60fps
+const LEVELS_INTERVAL_MS = 100;
+
+/**
+ * Audio analysis pipeline for audio-reactive shaders
+ *
+ * Feeds an AnalyserNode from the microphone or a local audio file and
+ * updates `frameRef` every animation frame. Shaders read the ref directly
+ * (no re-render needed); `levels` samples it a few times a second for UI meters.
+ */
+export function useAudioAnalysis() {
+  const frameRef = useRef<AudioAnalysisFrame>(createAudioAnalysisFrame());
+  const [levels, setLevels] = useState<AudioLevels>(SILENT_LEVELS);
+  const [source, setSource] = useState<AudioSourceKind | null>(null);
+  const [trackName, setTrackName] = useState<string | null>(null);
+
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const animationFrameRef = useRef<number>(0);
+  const releaseSourceRef = useRef<(() => void) | null>(null);
+
+  // Tear down audio nodes without touching React state (safe on unmount)
+  const teardown = useCallback(() => {
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = 0;
+    }
+    releaseSourceRef.current?.();
+    releaseSourceRef.current = null;
+    if (audioContextRef.current) {
+      audioContextRef.current.close();
+      audioContextRef.current = null;
+    }
+    resetAudioAnalysisFrame(frameRef.current);
+  }, []);
+
+  const stop = useCallback(() => {
+    teardown();
+    setLevels(SILENT_LEVELS);
+    setSource(null);
+    setTrackName(null);
+  }, [teardown]);
+
+  // Connect a source node to a fresh analyser and start the analysis loop
+  const startAnalysis = useCallback(
+    (audioContext: AudioContext, node: AudioNode, audible: boolean) => {
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = AUDIO_FFT_SIZE;
+      analyser.smoothingTimeConstant = 0.7;
+      node.connect(analyser);
+      if (audible) analyser.connect(audioContext.destination);
+
+      const frame = frameRef.current;
+      const detector = createBeatDetector();
+
+      const update = () => {
+        analyser.getByteFrequencyData(frame.spectrum);
+        analyseAudioFrame(frame, detector, audioContext.sampleRate, audioContext.currentTime);
+        animationFrameRef.current = requestAnimationFrame(update);
+      };
+      update();
+    },
+    []
+  );
+
+  const startMicrophone = useCallback(async () => {
+    teardown();
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const audioContext = new AudioContext();
+      audioContextRef.current = audioContext;
+      releaseSourceRef.current = () => stream.getTracks().forEach((track) => track.stop());
+
+      // Microphone is analysed only, never played back (feedback)
+      startAnalysis(audioContext, audioContext.createMediaStreamSource(stream), false);
+      setSource("microphone");
+      setTrackName(null);
+    } catch (err) {
+      console.error("Failed to access microphone:", err);
+      stop();
+    }
+  }, [teardown, startAnalysis, stop]);
+
+  const startFile = useCallback(
+    async (file: File) => {
+      teardown();
+      const url = URL.createObjectURL(file);
+      const audio = new Audio(url);
+      audio.loop = true;
+
+      try {
+        const audioContext = new AudioContext();
+        audioContextRef.current = audioContext;
+        releaseSourceRef.current = () => {
+          audio.pause();
+          audio.removeAttribute("src");
+          URL.revokeObjectURL(url);
+        };
+
+        startAnalysis(audioContext, audioContext.createMediaElementSource(audio), true);
+        await audio.play();
+        setSource("file");
+        setTrackName(file.name);
+      } catch (err) {
+        console.error("Failed to play audio file:", err);
+        stop();
+      }
+    },
+    [teardown, startAnalysis, stop]
+  );
+
+  // Mirror the analysis frame into state for the meters while a source plays
+  useEffect(() => {
+    if (!source) return;
+    const frame = frameRef.current;
+    const interval = setInterval(() => {
+      setLevels({
+        level: frame.level,
+        bass: frame.bass,
+        mid: frame.mid,
+        treble: frame.treble,
+        beat: frame.beat,
+      });
+    }, LEVELS_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [source]);
+
+  // Cleanup audio on unmount
+  useEffect(() => teardown, [teardown]);
+
+  return { frameRef, levels, source, trackName, startMicrophone, startFile, stop };
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  fetchPhysicsModels,
+  loadPhysicsModel,
+  type PreparedPhysicsModel,
+} from "@/components/canvas/physics/models";
+import type { PhysicsModel } from "@/components/canvas/physics/types";
+
+/**
+ * Models from the assets folder (empty until loaded)
+ */
+export function usePhysicsModels(): PhysicsModel[] {
+  const [models, setModels] = useState<PhysicsModel[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPhysicsModels()
+      .then((loaded) => {
+        if (!cancelled) setModels(loaded);
+      })
+      .catch((err) => console.error("Failed to load physics models:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return models;
+}
+
+/**
+ * Prepared model for a URL (null while loading, or without a URL)
+ */
+export function usePhysicsModel(url: string | undefined): PreparedPhysicsModel | null {
+  const [loaded, setLoaded] = useState<{ url: string; model: PreparedPhysicsModel } | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    loadPhysicsModel(url)
+      .then((model) => {
+        if (!cancelled) setLoaded({ url, model });
+      })
+      .catch((err) => console.error("Failed to load physics model:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return loaded && loaded.url === url ? loaded.model : null;
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import {
+  fetchPhysicsPresets,
+  getUserPhysicsPresets,
+  getServerUserPhysicsPresets,
+  subscribeToUserPhysicsPresets,
+} from "@/components/canvas/physics/presets";
+import type { PhysicsPreset } from "@/components/canvas/physics/types";
+
+/**
+ * Built-in presets (empty until fetched) and presets saved in this browser
+ */
+export function usePhysicsPresets(): { builtIn: PhysicsPreset[]; user: PhysicsPreset[] } {
+  const [builtIn, setBuiltIn] = useState<PhysicsPreset[]>([]);
+  const user = useSyncExternalStore(
+    subscribeToUserPhysicsPresets,
+    getUserPhysicsPresets,
+    getServerUserPhysicsPresets
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPhysicsPresets()
+      .then((presets) => {
+        if (!cancelled) setBuiltIn(presets);
+      })
+      .catch((err) => console.error("Failed to load physics presets:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { builtIn, user };
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState, useRef, useCallback, useEffect } from "react";
+
+/** Latest input for the shader uniforms (uMouse, uZoom, uTilt) */
+export interface ShaderInputState {
+  /** 0-1, origin bottom-left like vUv */
+  mouse: [number, number];
+  zoom: number;
+  /** Device tilt, -1 to 1 per axis */
+  tilt: [number, number];
+}
+
+export type OrientationPermission = "unsupported" | "prompt" | "granted" | "denied";
+
+// iOS 13+ gates orientation events behind a user-gesture permission prompt
+interface OrientationEventWithPermission {
+  requestPermission?: () => Promise<"granted" | "denied">;
+}
+
+const ZOOM_RANGE = { min: 0.5, max: 4 };
+// Degrees of tilt that map to the full -1..1 range
+const TILT_RANGE = 45;
+// Natural phone holding angle (front-back)
+const TILT_REST_BETA = 45;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+function getInitialPermission(): OrientationPermission {
+  if (typeof window === "undefined" || !("DeviceOrientationEvent" in window)) {
+    return "unsupported";
+  }
+  const event = DeviceOrientationEvent as unknown as OrientationEventWithPermission;
+  return typeof event.requestPermission === "function" ? "prompt" : "granted";
+}
+
+/**
+ * Pointer, pinch, wheel and tilt input for the fullscreen shader view
+ *
+ * Pointer events cover mouse, pen and touch alike: one pointer moves uMouse,
+ * two pointers pinch-zoom around their midpoint, and the wheel zooms on
+ * desktop. Values land in `inputRef` so the shader reads them every frame
+ * without re-rendering the page.
+ */
+export function useShaderInput(enabled: boolean) {
+  const inputRef = useRef<ShaderInputState>({ mouse: [0.5, 0.5], zoom: 1, tilt: [0, 0] });
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+  const [orientationPermission, setOrientationPermission] =
+    useState<OrientationPermission>(getInitialPermission);
+
+  // Normalised position inside the element, y up
+  const toUv = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width, 0, 1),
+      y: clamp(1 - (e.clientY - rect.top) / rect.height, 0, 1),
+    };
+  };
+
+  const updateFromPointers = useCallback(() => {
+    const points = Array.from(pointersRef.current.values());
+    const input = inputRef.current;
+
+    if (points.length === 1) {
+      input.mouse = [points[0].x, points[0].y];
+      return;
+    }
+
+    if (points.length >= 2) {
+      const [a, b] = points;
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      input.mouse = [(a.x + b.x) / 2, (a.y + b.y) / 2];
+
+      if (!pinchRef.current) {
+        pinchRef.current = { distance, zoom: input.zoom };
+      } else if (pinchRef.current.distance > 0) {
+        input.zoom = clamp(
+          (pinchRef.current.zoom * distance) / pinchRef.current.distance,
+          ZOOM_RANGE.min,
+          ZOOM_RANGE.max
+        );
+      }
+    }
+  }, []);
+
+  const onPointerDown = useCallback(
+    (e: React.PointerEvent) => {
+      // Moves and the release keep arriving after the pointer leaves the canvas
+      if (e.target instanceof Element) e.target.setPointerCapture(e.pointerId);
+      pointersRef.current.set(e.pointerId, toUv(e));
+      pinchRef.current = null;
+      updateFromPointers();
+    },
+    [updateFromPointers]
+  );
+
+  const onPointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      // Hovering mice steer without a button; touches only while down
+      if (!pointersRef.current.has(e.pointerId)) {
+        if (e.pointerType === "mouse") {
+          const { x, y } = toUv(e);
+          inputRef.current.mouse = [x, y];
+        }
+        return;
+      }
+      pointersRef.current.set(e.pointerId, toUv(e));
+      updateFromPointers();
+    },
+    [updateFromPointers]
+  );
+
+  const onPointerUp = useCallback((e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    pinchRef.current = null;
+  }, []);
+
+  const onWheel = useCallback((e: React.WheelEvent) => {
+    const input = inputRef.current;
+    input.zoom = clamp(input.zoom * Math.exp(-e.deltaY * 0.001), ZOOM_RANGE.min, ZOOM_RANGE.max);
+  }, []);
+
+  const resetZoom = useCallback(() => {
+    inputRef.current.zoom = 1;
+  }, []);
+
+  // Must run from a user gesture on iOS
+  const requestOrientation = useCallback(async () => {
+    const event = DeviceOrientationEvent as unknown as OrientationEventWithPermission;
+    if (typeof event.requestPermission !== "function") return;
+    try {
+      setOrientationPermission(await event.requestPermission());
+    } catch (err) {
+      console.error("Failed to get orientation permission:", err);
+      setOrientationPermission("denied");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || orientationPermission !== "granted") return;
+
+    const input = inputRef.current;
+    const handleOrientation = (e: DeviceOrientationEvent) => {
+      if (e.beta === null || e.gamma === null) return;
+      input.tilt = [
+        clamp(e.gamma / TILT_RANGE, -1, 1),
+        clamp((e.beta - TILT_REST_BETA) / TILT_RANGE, -1, 1),
+      ];
+    };
+
+    window.addEventListener("deviceorientation", handleOrientation);
+    return () => {
+      window.removeEventListener("deviceorientation", handleOrientation);
+      input.tilt = [0, 0];
+    };
+  }, [enabled, orientationPermission]);
+
+  return {
+    inputRef,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+      onWheel,
+    },
+    resetZoom,
+    orientationPermission,
+    requestOrientation,
+  };
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from "react";
+import {
+  getShaderPresets,
+  getServerShaderPresets,
+  subscribeToShaderPresets,
+  selectShaderPresets,
+  type ShaderPreset,
+} from "@/components/canvas/shaders/presets";
+import { useShaderRegistry } from "./useShaderRegistry";
+
+/**
+ * Saved presets for one shader (empty until hydrated)
+ * Re-checked when the shader registry changes.
+ */
+export function useShaderPresets(shaderId: string | undefined): ShaderPreset[] {
+  const presets = useSyncExternalStore(
+    subscribeToShaderPresets,
+    getShaderPresets,
+    getServerShaderPresets
+  );
+  const shaders = useShaderRegistry();
+  const definition = shaders.find((shader) => shader.info.id === shaderId);
+  return useMemo(() => selectShaderPresets(presets, definition), [presets, definition]);
+}
@@ -0,0 +1,13 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { getShaders, subscribeToShaders } from "@/components/canvas/shaders/registry";
+import type { ShaderDefinition } from "@/components/canvas/shaders/types";
+
+/**
+ * Subscribe to the shader registry
+ * Re-renders when shaders are registered or removed at runtime
+ */
+export function useShaderRegistry(): ShaderDefinition[] {
+  return useSyncExternalStore(subscribeToShaders, getShaders, getShaders);
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState, useRef, useEffect, useCallback } from "react";
+import {
+  createThumbnailRenderer,
+  disposeThumbnailRenderer,
+  renderThumbnail,
+  type ThumbnailSlot,
+} from "@/components/canvas/shaders/thumbnails";
+
+// Same thresholds as usePerformanceLOD's "low" level
+const LOW_FPS = 45;
+const FPS_HISTORY_SIZE = 3;
+// Static fallback lasts this long, doubling each time FPS drops again
+const STATIC_HOLD_MS = 5000;
+
+/**
+ * Render loop for the gallery grid's thumbnails
+ *
+ * Cards register their slots in the returned set. Each frame the loop draws
+ * visible slots through one shared renderer; offscreen cards are skipped.
+ * The loop sleeps while no visible slot needs a frame, so cards call
+ * `requestFrame` after they come on screen or change.
+ * When the averaged FPS falls below the "low" LOD threshold, cards keep
+ * their cached frames and only redraw when something changes.
+ *
+ * @param animate - Advance time (false shows cached frames, like pause)
+ */
+export function useShaderThumbnails(animate: boolean) {
+  const [slots] = useState(() => new Set<ThumbnailSlot>());
+  const [isStatic, setIsStatic] = useState(false);
+  const animateRef = useRef(animate);
+  // Wakes the render loop; replaced once the loop starts
+  const wakeRef = useRef(() => {});
+
+  const requestFrame = useCallback(() => wakeRef.current(), []);
+
+  useEffect(() => {
+    animateRef.current = animate;
+    wakeRef.current();
+  }, [animate]);
+
+  useEffect(() => {
+    const renderer = createThumbnailRenderer();
+    const start = performance.now();
+    let animationFrame = 0;
+    let holdTimeout = 0;
+
+    // FPS sampling, usePerformanceLOD style: one sample per second
+    let frameCount = 0;
+    let lastSampleTime = start;
+    const fpsHistory: number[] = [60, 60, 60];
+    let staticUntil = 0;
+    let holdMs = STATIC_HOLD_MS;
+
+    const wake = () => {
+      if (animationFrame) return;
+      // Time spent asleep isn't a slow frame
+      frameCount = 0;
+      lastSampleTime = performance.now();
+      animationFrame = requestAnimationFrame(loop);
+    };
+
+    const loop = () => {
+      const now = performance.now();
+      const animating = animateRef.current && now >= staticUntil;
+      let anyVisible = false;
+
+      for (const slot of slots) {
+        if (slot.visible && (animating || slot.dirty)) {
+          renderThumbnail(renderer, slot, (now - start) / 1000);
+        }
+        if (slot.visible) anyVisible = true;
+      }
+
+      frameCount++;
+      const elapsed = now - lastSampleTime;
+      if (elapsed >= 1000) {
+        fpsHistory.push((frameCount * 1000) / elapsed);
+        if (fpsHistory.length > FPS_HISTORY_SIZE) fpsHistory.shift();
+        const avgFps = fpsHistory.reduce((a, b) => a + b, 0) / fpsHistory.length;
+
+        if (animating && avgFps < LOW_FPS) {
+          staticUntil = now + holdMs;
+          holdMs *= 2;
+          // Measurements taken while animating don't describe the static loop
+          fpsHistory.fill(60);
+        }
+        setIsStatic(now < staticUntil);
+
+        frameCount = 0;
+        lastSampleTime = now;
+      }
+
+      if (animating && anyVisible) {
+        animationFrame = requestAnimationFrame(loop);
+        return;
+      }
+      animationFrame = 0;
+      // Resume animating once the static hold runs out
+      if (animateRef.current && now < staticUntil) {
+        clearTimeout(holdTimeout);
+        holdTimeout = window.setTimeout(wake, staticUntil - now);
+      }
+    };
+
+    wakeRef.current = wake;
+    wake();
+
+    return () => {
+      wakeRef.current = () => {};
+      cancelAnimationFrame(animationFrame);
+      clearTimeout(holdTimeout);
+      disposeThumbnailRenderer(renderer);
+    };
+  }, [slots]);
+
+  return { slots, isStatic, requestFrame };
+}
@@ -0,0 +1,120 @@
+/**
+ * Minimal ZIP writer (store only, no compression, no ZIP64)
+ * Used for packaging already-compressed files such as PNG frame sequences.
+ */
+
+export interface ZipEntry {
+  name: string;
+  /** Read one entry at a time for its checksum, then passed through as is */
+  data: Blob;
+}
+
+// Without ZIP64, sizes and offsets are 32-bit and the entry count 16-bit
+const MAX_ZIP_BYTES = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time as stored in ZIP headers
+function dosDateTime(date: Date) {
+  const time =
+    (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day =
+    ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+/**
+ * Package files into a ZIP archive
+ * @throws Error when the archive would pass the 4 GiB or 65535-entry limit
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const names = entries.map((entry) => encoder.encode(entry.name));
+  const totalSize = entries.reduce(
+    (sum, entry, i) => sum + 30 + 46 + names[i].length * 2 + entry.data.size,
+    22
+  );
+  if (totalSize > MAX_ZIP_BYTES || entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error("Archive would exceed 4 GiB; export fewer frames or a lower resolution");
+  }
+
+  const { time, day } = dosDateTime(new Date());
+  const chunks: BlobPart[] = [];
+  const centralDirectory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const [i, entry] of entries.entries()) {
+    const name = names[i];
+    const crc = crc32(new Uint8Array(await entry.data.arrayBuffer()));
+    const size = entry.data.size;
+
+    // Local file header
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // version needed
+    localView.setUint16(6, 0, true); // flags
+    localView.setUint16(8, 0, true); // method: store
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, day, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    // Central directory record
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true); // version made by
+    centralView.setUint16(6, 20, true); // version needed
+    centralView.setUint16(8, 0, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, day, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    chunks.push(local, entry.data);
+    centralDirectory.push(central);
+    offset += local.length + size;
+  }
+
+  const directorySize = centralDirectory.reduce((sum, record) => sum + record.length, 0);
+
+  // End of central directory
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...chunks, ...centralDirectory, end], { type: "application/zip" });
+}